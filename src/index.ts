@@ -2,27 +2,199 @@
 
 import { Command } from "commander";
 import { Embedder } from "./lib/embedder.js";
+import { Searcher } from "./lib/searcher.js";
+import { RetrievalServer } from "./lib/server.js";
+import { EmbedderMcpServer } from "./lib/mcp-server.js";
+import { Watcher } from "./lib/watcher.js";
+import { GarbageCollector } from "./lib/garbage-collector.js";
+import { Verifier } from "./lib/verifier.js";
+import { GraphExporter, EXPORT_FORMATS } from "./lib/graph-exporter.js";
+import {
+  ClusterAnalyzer,
+  DEFAULT_CLUSTER_CENTRAL_CHUNKS,
+  DEFAULT_CLUSTER_KEYWORDS,
+  DEFAULT_CLUSTER_MIN_SIZE,
+  DEFAULT_CLUSTER_RESOLUTION,
+} from "./lib/cluster-analyzer.js";
+import { OutputLock } from "./lib/output-lock.js";
+import { loadConfig, CONFIG_FILE_NAMES } from "./lib/config.js";
+import { DEFAULT_BASE_URLS, PROVIDER_NAMES } from "./lib/embedding-provider.js";
+import { DEFAULT_GRAPH_EF, DEFAULT_GRAPH_MEMORY_MB, EDGE_METHODS } from "./lib/edge-builder.js";
+import { EDGE_TYPES } from "./lib/code-structure.js";
+import type {
+  EmbedderConfig,
+  EmbedderOptions,
+  EmbeddingProviderName,
+  GraphEdgeMethod,
+  GraphEdgeType,
+  GraphEdgeWeights,
+  IndexPlan,
+  LoadedConfig,
+  ProviderOptions,
+} from "./types/index.js";
 import chalk from "chalk";
+import * as path from "path";
+import * as fs from "fs";
+
+// CLI options whose config key has a different name
+const OPTION_CONFIG_KEYS: Record<string, keyof EmbedderConfig> = {
+  dimensions: "dimension",
+  circuitBreaker: "circuitBreakerThreshold",
+};
+
+// Dry-run report limits
+const PLAN_LARGEST_FILES = 10;
+const PLAN_EXCLUDED_PATHS = 5; // Paths listed per ignore rule
+
+// Clusters report limits (clusters.json has everything)
+const CLUSTERS_PRINTED = 20;
+const CLUSTER_FILES_PRINTED = 3;
 
 const program = new Command();
+let loadedConfig: LoadedConfig | null = null;
 
 program
   .name("embedder")
   .description(
     "CLI tool to index a git repository by chunking and embedding text files into LanceDB"
   )
-  .version("1.0.0");
+  .version("1.0.0")
+  .option(
+    "-c, --config <path>",
+    `Config file (default: first of ${CONFIG_FILE_NAMES.join(", ")} in the current directory)`
+  );
 
-program
-  .requiredOption("-d, --dir <path>", "Directory to index (the git repository)")
-  .requiredOption("-o, --output <path>", "Output path for LanceDB database")
-  .requiredOption(
-    "-u, --base-url <url>",
-    "Base URL for LM Studio (e.g., http://localhost:1234/v1)"
+// Load the config file before the subcommand parses its flags, so file values
+// replace option defaults and flags given on the command line still win
+program.hook("preSubcommand", async (thisCommand, subcommand) => {
+  try {
+    loadedConfig = await loadConfig(thisCommand.opts().config);
+    if (loadedConfig) {
+      applyConfig(subcommand, loadedConfig.config);
+    }
+  } catch (error) {
+    handleError(error);
+  }
+});
+
+addIndexOptions(
+  program
+    .command("index", { isDefault: true })
+    .description("Index a directory into LanceDB (default command)")
+)
+  .option(
+    "--mode <type>",
+    "Indexing mode: 'full' (complete re-index), 'diff' (incremental based on git), 'intelligent' (auto-detect)",
+    "full"
+  )
+  .option(
+    "--from-commit <hash>",
+    "Git commit hash to diff from (overrides stored state, only used with --mode diff)"
+  )
+  .option(
+    "--print-config",
+    "Print the resolved settings (defaults, config file and flags) and exit",
+    false
+  )
+  .option(
+    "--dry-run",
+    "Report what would be indexed and the estimated cost, without embedding or writing anything",
+    false
+  )
+  .action(async (options) => {
+    try {
+      // Validate mode
+      const validModes = ['full', 'diff', 'intelligent'];
+      if (!validModes.includes(options.mode)) {
+        console.error(chalk.red.bold("\n✗ Error:"), `Invalid mode '${options.mode}'`);
+        console.error(chalk.gray(`Valid modes: ${validModes.join(', ')}`));
+        process.exit(1);
+      }
+
+      // Warn if --from-commit used without diff mode
+      if (options.fromCommit && options.mode !== 'diff') {
+        console.warn(chalk.yellow("\nWarning: --from-commit is only used with --mode diff (ignored)\n"));
+      }
+
+      const embedderOptions: EmbedderOptions = {
+        ...buildEmbedderOptions(options),
+        mode: options.mode,
+        fromCommit: options.fromCommit,
+      };
+
+      if (options.printConfig) {
+        console.log(JSON.stringify({ configFile: loadedConfig?.path ?? null, ...embedderOptions }, null, 2));
+        return;
+      }
+
+      if (options.dryRun) {
+        // No graph store, so nothing is created under --output
+        const embedder = new Embedder({ ...embedderOptions, enableGraph: false });
+        printPlan(await embedder.plan(), embedderOptions);
+        return;
+      }
+
+      const lock = OutputLock.acquire(embedderOptions.output, "index");
+      try {
+        const embedder = new Embedder(embedderOptions);
+        await embedder.run();
+      } finally {
+        lock.release();
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+addIndexOptions(
+  program
+    .command("watch")
+    .description("Index once, then keep the index up to date as files change")
+)
+  .option(
+    "--debounce <ms>",
+    "Quiet period before a burst of changes is indexed",
+    "1000"
+  )
+  .option(
+    "--save-interval <ms>",
+    "How often state and graph data are saved",
+    "5000"
   )
+  .action(async (options) => {
+    try {
+      const embedderOptions = buildEmbedderOptions(options);
+      const lock = OutputLock.acquire(embedderOptions.output, "watch");
+      const watcher = new Watcher({
+        ...embedderOptions,
+        debounceMs: parsePositiveNumber(options.debounce, "--debounce"),
+        saveIntervalMs: parsePositiveNumber(options.saveInterval, "--save-interval"),
+      });
+
+      await watcher.start();
+
+      const shutdown = async () => {
+        console.log(chalk.gray("\nSaving and shutting down..."));
+        await watcher.stop();
+        lock.release();
+        process.exit(0);
+      };
+      process.once("SIGINT", shutdown);
+      process.once("SIGTERM", shutdown);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+addProviderOptions(
+  program
+    .command("query <text>")
+    .description("Semantic search over an existing index")
+    .requiredOption("-o, --output <path>", "Path to the LanceDB database")
+)
   .requiredOption(
     "-m, --model <name>",
-    "Embedding model name (e.g., text-embedding-qwen3-embedding-0.6b)"
+    "Embedding model name (must match the model used for indexing)"
   )
   .option(
     "-t, --table-name <name>",
@@ -30,84 +202,1035 @@ program
     "embeddings"
   )
   .option(
-    "--dimensions <number>",
-    "Embedding dimension size",
-    "1024"
+    "-k, --top-k <number>",
+    "Number of results to return",
+    "10"
   )
   .option(
-    "-i, --ignore <pattern>",
-    "Glob patterns to ignore (can be specified multiple times)",
-    (value: string, previous: string[] = []) => {
-      return [...previous, value];
-    },
-    [] as string[]
+    "-s, --source <glob>",
+    "Only return chunks whose source path matches this glob (e.g., 'src/**/*.ts')"
   )
   .option(
-    "-b, --batch-size <number>",
-    "Number of embeddings to process in a batch",
-    "10"
+    "--cluster <id>",
+    "Only return chunks of this cluster (run the clusters command first)"
   )
   .option(
-    "--enable-graph",
-    "Enable GraphRAG knowledge graph creation",
+    "--json",
+    "Output results as JSON",
     false
   )
+  .action(async (text: string, options) => {
+    try {
+      const topK = parsePositiveNumber(options.topK, "--top-k");
+      const cluster = options.cluster === undefined ? undefined : parseNonNegativeNumber(options.cluster, "--cluster");
+
+      const searcher = new Searcher({
+        output: options.output,
+        ...buildProviderOptions(options),
+        tableName: options.tableName,
+      });
+
+      const results = await searcher.search(text, topK, options.source, cluster);
+
+      if (options.json) {
+        console.log(JSON.stringify(results, null, 2));
+        return;
+      }
+
+      if (results.length === 0) {
+        console.log(chalk.yellow("No results found"));
+        return;
+      }
+
+      console.log(chalk.blue.bold(`\nTop ${results.length} result(s) for: `) + text + "\n");
+      results.forEach((result, i) => {
+        console.log(
+          chalk.cyan(`${i + 1}. ${formatLocation(result.source, result.startLine, result.endLine)}`) +
+          chalk.gray(` (score: ${result.score.toFixed(4)})`)
+        );
+        console.log(chalk.gray(`   ${formatPreview(result.text)}\n`));
+      });
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+addProviderOptions(
+  program
+    .command("graph-query <text>")
+    .description("Graph-augmented retrieval over the persisted knowledge graph")
+    .requiredOption("-o, --output <path>", "Path to the LanceDB database")
+)
+  .requiredOption(
+    "-m, --model <name>",
+    "Embedding model name (must match the model used for indexing)"
+  )
+  .option(
+    "-k, --top-k <number>",
+    "Number of results to return",
+    "10"
+  )
+  .option(
+    "--random-walk-steps <number>",
+    "Steps for random walk traversal",
+    "100"
+  )
+  .option(
+    "--restart-prob <number>",
+    "Probability of restarting from the query node (0.0-1.0)",
+    "0.15"
+  )
   .option(
     "--graph-threshold <number>",
-    "Similarity threshold for graph edges (0.0-1.0)",
-    "0.7"
+    "Override the similarity threshold stored with the graph (0.0-1.0)"
   )
   .option(
-    "--mode <type>",
-    "Indexing mode: 'full' (complete re-index), 'diff' (incremental based on git), 'intelligent' (auto-detect)",
-    "full"
+    "--edge-weights <weights>",
+    "Graph walk weight per edge type, e.g. references=1,contains=0 (0 leaves a type out)"
   )
   .option(
-    "--from-commit <hash>",
-    "Git commit hash to diff from (overrides stored state, only used with --mode diff)"
+    "--json",
+    "Output results as JSON",
+    false
+  )
+  .action(async (text: string, options) => {
+    try {
+      const restartProb = parseFloat(options.restartProb);
+      if (isNaN(restartProb) || restartProb <= 0 || restartProb >= 1) {
+        console.error(chalk.red.bold("\n✗ Error:"), `Invalid --restart-prob '${options.restartProb}' (must be between 0 and 1)`);
+        process.exit(1);
+      }
+
+      const searcher = new Searcher({
+        output: options.output,
+        ...buildProviderOptions(options),
+        tableName: "embeddings", // Not used for graph search
+        ...(options.edgeWeights !== undefined && { edgeWeights: parseEdgeWeights(options.edgeWeights) }),
+      });
+
+      const results = await searcher.graphSearch(text, {
+        topK: parsePositiveNumber(options.topK, "--top-k"),
+        randomWalkSteps: parsePositiveNumber(options.randomWalkSteps, "--random-walk-steps"),
+        restartProb,
+        ...(options.graphThreshold !== undefined && {
+          threshold: parseSimilarity(options.graphThreshold, "--graph-threshold"),
+        }),
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(results, null, 2));
+        return;
+      }
+
+      if (results.length === 0) {
+        console.log(chalk.yellow("No results found"));
+        return;
+      }
+
+      // Group hits by source file, keeping files in order of their best hit
+      const bySource = new Map<string, typeof results>();
+      for (const result of results) {
+        const group = bySource.get(result.source) ?? [];
+        group.push(result);
+        bySource.set(result.source, group);
+      }
+
+      console.log(chalk.blue.bold(`\nTop ${results.length} graph result(s) for: `) + text);
+      console.log(chalk.gray(`${bySource.size} source file(s)\n`));
+      for (const [source, group] of bySource) {
+        console.log(chalk.cyan(source));
+        for (const result of group) {
+          console.log(
+            chalk.magenta(`  [chunk ${result.chunkIndex}]`) +
+            (result.startLine > 0 ? chalk.gray(` lines ${result.startLine}-${result.endLine}`) : "") +
+            chalk.gray(` (score: ${result.score.toFixed(4)})`)
+          );
+          console.log(chalk.gray(`    ${formatPreview(result.text)}`));
+        }
+        console.log();
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+addProviderOptions(
+  program
+    .command("serve")
+    .description("Start a local HTTP server exposing search, graph search and index status")
+    .requiredOption("-o, --output <path>", "Path to the LanceDB database")
+)
+  .requiredOption(
+    "-m, --model <name>",
+    "Embedding model name (must match the model used for indexing)"
+  )
+  .option(
+    "-t, --table-name <name>",
+    "LanceDB table name",
+    "embeddings"
+  )
+  .option(
+    "--host <host>",
+    "Host to bind to",
+    "127.0.0.1"
+  )
+  .option(
+    "-p, --port <number>",
+    "Port to listen on",
+    "8787"
+  )
+  .option(
+    "--edge-weights <weights>",
+    "Graph walk weight per edge type, e.g. references=1,contains=0 (0 leaves a type out)"
   )
   .action(async (options) => {
     try {
-      // Validate mode
-      const validModes = ['full', 'diff', 'intelligent'];
-      if (!validModes.includes(options.mode)) {
-        console.error(chalk.red.bold("\n✗ Error:"), `Invalid mode '${options.mode}'`);
-        console.error(chalk.gray(`Valid modes: ${validModes.join(', ')}`));
+      const server = new RetrievalServer({
+        output: options.output,
+        ...buildProviderOptions(options),
+        tableName: options.tableName,
+        host: options.host,
+        port: parsePositiveNumber(options.port, "--port"),
+        ...(options.edgeWeights !== undefined && { edgeWeights: parseEdgeWeights(options.edgeWeights) }),
+      });
+
+      console.log(chalk.blue.bold("\nEmbedder - Retrieval Server\n"));
+      console.log(chalk.gray(`Output: ${options.output}`));
+      console.log(chalk.gray(`Table: ${options.tableName}`));
+      console.log(chalk.gray(`Model: ${options.model}`));
+      console.log();
+
+      await server.start();
+
+      const shutdown = async () => {
+        console.log(chalk.gray("\nShutting down..."));
+        await server.stop();
+        process.exit(0);
+      };
+      process.once("SIGINT", shutdown);
+      process.once("SIGTERM", shutdown);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+addProviderOptions(
+  program
+    .command("mcp")
+    .description("Start a Model Context Protocol server over stdio")
+    .requiredOption("-o, --output <path>", "Path to the LanceDB database")
+)
+  .requiredOption(
+    "-m, --model <name>",
+    "Embedding model name (must match the model used for indexing)"
+  )
+  .option(
+    "-t, --table-name <name>",
+    "LanceDB table name",
+    "embeddings"
+  )
+  .option(
+    "--dimensions <number>",
+    "Embedding dimension size (default: detected from the model)"
+  )
+  .option(
+    "--edge-weights <weights>",
+    "Graph walk weight per edge type, e.g. references=1,contains=0 (0 leaves a type out)"
+  )
+  .action(async (options) => {
+    try {
+      const server = new EmbedderMcpServer({
+        output: options.output,
+        ...buildProviderOptions(options),
+        tableName: options.tableName,
+        ...(options.dimensions !== undefined && {
+          dimension: parsePositiveNumber(options.dimensions, "--dimensions"),
+        }),
+        ...(options.edgeWeights !== undefined && { edgeWeights: parseEdgeWeights(options.edgeWeights) }),
+      });
+
+      await server.start();
+
+      const shutdown = async () => {
+        await server.stop();
+        process.exit(0);
+      };
+      process.once("SIGINT", shutdown);
+      process.once("SIGTERM", shutdown);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+addIndexOptions(
+  program
+    .command("verify")
+    .description("Check that the state file, LanceDB and the graph store agree")
+)
+  .option(
+    "--repair",
+    "Re-index the files that are inconsistent",
+    false
+  )
+  .action(async (options) => {
+    try {
+      const embedderOptions = buildEmbedderOptions(options);
+
+      console.log(chalk.blue.bold("\nEmbedder - Verify Index\n"));
+      console.log(chalk.gray(`Output: ${embedderOptions.output}`));
+      console.log(chalk.gray(`Table: ${embedderOptions.tableName}`));
+      console.log();
+
+      const report = await new Verifier({
+        output: embedderOptions.output,
+        tableName: embedderOptions.tableName,
+      }).run();
+
+      console.log(chalk.gray(
+        `Checked ${report.filesChecked} file(s) across the state file, LanceDB` +
+        (report.graphChecked ? " and the graph store" : " (no graph data)")
+      ));
+
+      report.graphLogIssues.forEach(({ problem, sources }) => {
+        console.log(chalk.red(`\n✗ Graph log: ${problem}`));
+        console.log(chalk.gray(`    Affects ${sources.length} file(s)`));
+      });
+
+      if (report.issues.length > 0) {
+        console.log(chalk.yellow(`\n${report.issues.length} inconsistent file(s):`));
+        for (const issue of report.issues) {
+          console.log(chalk.yellow(`  ${issue.source}`));
+          issue.problems.forEach((problem) => console.log(chalk.gray(`    - ${problem}`)));
+        }
+      }
+
+      const files = [...new Set([
+        ...report.issues.map((issue) => issue.source),
+        ...report.graphLogIssues.flatMap((issue) => issue.sources),
+      ])];
+
+      if (files.length === 0) {
+        console.log(chalk.green("\n✓ Index is consistent\n"));
+        return;
+      }
+
+      if (!options.repair) {
+        console.log(chalk.gray("\nRun with --repair to re-index these files\n"));
         process.exit(1);
       }
 
-      // Warn if --from-commit used without diff mode
-      if (options.fromCommit && options.mode !== 'diff') {
-        console.warn(chalk.yellow("\nWarning: --from-commit is only used with --mode diff (ignored)\n"));
+      console.log(chalk.cyan(`\nRe-indexing ${files.length} file(s)...`));
+      const lock = OutputLock.acquire(embedderOptions.output, "verify --repair");
+      let stats;
+      try {
+        const embedder = new Embedder({
+          ...embedderOptions,
+          // Graph chunks are only rewritten when the graph store is open
+          enableGraph: embedderOptions.enableGraph || report.graphChecked,
+        });
+        stats = await embedder.repair(files);
+      } finally {
+        lock.release();
       }
 
-      const embedder = new Embedder({
-        dir: options.dir,
+      console.log(chalk.green(`✓ Re-indexed: ${stats.filesProcessed}`));
+      if (stats.filesDeleted) {
+        console.log(chalk.green(`✓ Removed (file no longer exists): ${stats.filesDeleted}`));
+      }
+      if (stats.errors > 0) {
+        console.log(chalk.red(`✗ Errors: ${stats.errors}`));
+      }
+      stats.warnings.forEach((warning) => console.log(chalk.yellow(`  - ${warning}`)));
+      console.log();
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+program
+  .command("gc")
+  .description("Remove chunks whose source file no longer exists from LanceDB, the state file and graph data")
+  .requiredOption("-o, --output <path>", "Path to the LanceDB database")
+  .option(
+    "-t, --table-name <name>",
+    "LanceDB table name",
+    "embeddings"
+  )
+  .option(
+    "--dry-run",
+    "List orphaned sources without removing them",
+    false
+  )
+  .option(
+    "--force",
+    "Remove orphans even if no indexed file exists (normally a sign of running from the wrong directory)",
+    false
+  )
+  .action(async (options) => {
+    try {
+      console.log(chalk.blue.bold("\nEmbedder - Garbage Collection\n"));
+      console.log(chalk.gray(`Output: ${options.output}`));
+      console.log(chalk.gray(`Table: ${options.tableName}`));
+      console.log();
+
+      const collector = new GarbageCollector({
         output: options.output,
-        baseUrl: options.baseUrl,
-        model: options.model,
         tableName: options.tableName,
-        dimension: parseInt(options.dimensions, 10),
-        ignore: options.ignore,
-        batchSize: parseInt(options.batchSize, 10),
-        enableGraph: options.enableGraph,
-        graphThreshold: parseFloat(options.graphThreshold),
-        mode: options.mode,
-        fromCommit: options.fromCommit,
+        dryRun: options.dryRun,
+        force: options.force,
       });
 
-      await embedder.run();
+      // A missing index is reported by the collector; locking would create the directory
+      const lock = !options.dryRun && fs.existsSync(options.output) ? OutputLock.acquire(options.output, "gc") : null;
+      let result;
+      try {
+        result = await collector.run();
+      } finally {
+        lock?.release();
+      }
+
+      console.log(chalk.gray(`Checked ${result.sourcesChecked} source file(s)`));
+      if (result.orphans.length === 0) {
+        console.log(chalk.green("✓ No orphaned sources found\n"));
+        return;
+      }
+
+      console.log(chalk.yellow(`\n${result.orphans.length} source file(s) no longer exist:`));
+      result.orphans.forEach((orphan) => console.log(chalk.yellow(`  - ${orphan}`)));
+
+      if (options.dryRun) {
+        console.log(chalk.gray("\nDry run, nothing was removed\n"));
+        return;
+      }
+
+      console.log(chalk.green(`\n✓ Removed from LanceDB: ${result.vectorsRemoved}`));
+      console.log(chalk.green(`✓ Removed from state: ${result.stateEntriesRemoved}`));
+      console.log(chalk.green(`✓ Removed from graph data: ${result.graphSourcesRemoved}`));
+      console.log();
     } catch (error) {
-      console.error(
-        chalk.red.bold("\n✗ Error:"),
-        error instanceof Error ? error.message : String(error)
-      );
-      if (error instanceof Error && error.stack) {
-        console.error(chalk.gray("\nStack trace:"));
-        console.error(chalk.gray(error.stack));
+      handleError(error);
+    }
+  });
+
+program
+  .command("export-graph")
+  .description("Export the knowledge graph for Gephi, yEd, NetworkX or Neo4j")
+  .requiredOption("-o, --output <path>", "Path to the LanceDB database")
+  .requiredOption(
+    "--format <format>",
+    `Export format: ${EXPORT_FORMATS.join(", ")}`
+  )
+  .option(
+    "--out <path>",
+    "File to write (default: stdout); a directory for neo4j-csv"
+  )
+  .option(
+    "--threshold <number>",
+    "Only export similarity edges above this (default: the threshold stored with the graph)"
+  )
+  .option(
+    "--preview-length <number>",
+    "Characters of chunk text kept in each node's preview",
+    "200"
+  )
+  .option(
+    "--structural",
+    "Also export file nodes and contains, imports and references edges",
+    false
+  )
+  .action(async (options) => {
+    try {
+      if (!EXPORT_FORMATS.includes(options.format)) {
+        console.error(chalk.red.bold("\n✗ Error:"), `Invalid export format '${options.format}'`);
+        console.error(chalk.gray(`Valid formats: ${EXPORT_FORMATS.join(", ")}`));
+        process.exit(1);
       }
-      process.exit(1);
+
+      // The graph itself may go to stdout, so progress goes to stderr
+      const log = (message: string) => console.error(message);
+      log(chalk.blue.bold("\nEmbedder - Export Graph\n"));
+      log(chalk.gray(`Output: ${options.output}`));
+      log(chalk.gray(`Format: ${options.format}`));
+      log("");
+
+      const result = await new GraphExporter({
+        output: options.output,
+        format: options.format,
+        previewLength: parsePositiveNumber(options.previewLength, "--preview-length"),
+        structural: options.structural,
+        ...(options.out !== undefined && { out: options.out }),
+        ...(options.threshold !== undefined && { threshold: parseSimilarity(options.threshold, "--threshold") }),
+      }).run();
+
+      log(chalk.green(`✓ Nodes: ${result.nodes}`));
+      log(chalk.green(`✓ Edges: ${result.edges} (similarity above ${result.threshold})`));
+      result.files.forEach((file) => log(chalk.gray(`  ${file}`)));
+      if (result.edgesIncomplete) {
+        log(chalk.yellow("\n⚠ Some chunks have no edges yet; re-run the indexer with --enable-graph to link them"));
+      }
+      log("");
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+program
+  .command("clusters")
+  .description("Group chunks into clusters of related code (community detection on the knowledge graph)")
+  .requiredOption("-o, --output <path>", "Path to the LanceDB database")
+  .option(
+    "--threshold <number>",
+    "Only use similarity edges above this (default: the threshold stored with the graph)"
+  )
+  .option(
+    "--resolution <number>",
+    "Louvain resolution; higher values give more, smaller clusters",
+    String(DEFAULT_CLUSTER_RESOLUTION)
+  )
+  .option(
+    "--min-size <number>",
+    "Chunks a community needs to count as a cluster",
+    String(DEFAULT_CLUSTER_MIN_SIZE)
+  )
+  .option(
+    "--keywords <number>",
+    "Keyword terms listed per cluster",
+    String(DEFAULT_CLUSTER_KEYWORDS)
+  )
+  .option(
+    "--central <number>",
+    "Central chunks listed per cluster",
+    String(DEFAULT_CLUSTER_CENTRAL_CHUNKS)
+  )
+  .option(
+    "--json",
+    "Print the cluster summary as JSON",
+    false
+  )
+  .action(async (options) => {
+    try {
+      const analyzer = new ClusterAnalyzer({
+        output: options.output,
+        resolution: parsePositiveRate(options.resolution, "--resolution"),
+        minSize: parsePositiveNumber(options.minSize, "--min-size"),
+        keywords: parseNonNegativeNumber(options.keywords, "--keywords"),
+        centralChunks: parseNonNegativeNumber(options.central, "--central"),
+        ...(options.threshold !== undefined && { threshold: parseSimilarity(options.threshold, "--threshold") }),
+      });
+
+      // A missing index is reported by the analyzer; locking would create the directory
+      const lock = fs.existsSync(options.output) ? OutputLock.acquire(options.output, "clusters") : null;
+      let summary;
+      try {
+        summary = analyzer.run();
+      } finally {
+        lock?.release();
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(summary, null, 2));
+        return;
+      }
+
+      console.log(chalk.blue.bold("\nEmbedder - Clusters\n"));
+      console.log(chalk.gray(`Output: ${options.output}`));
+      console.log(chalk.gray(`Similarity threshold: ${summary.threshold}`));
+      console.log();
+      console.log(chalk.green(
+        `✓ ${summary.clusters.length} cluster(s) covering ${summary.clusteredChunks} of ${summary.chunkCount} chunks ` +
+        `(modularity ${summary.modularity.toFixed(3)})`
+      ));
+
+      for (const cluster of summary.clusters.slice(0, CLUSTERS_PRINTED)) {
+        console.log(
+          chalk.cyan(`\n${cluster.id}. ${cluster.keywords.join(", ") || "(no keywords)"}`) +
+          chalk.gray(` (${cluster.size} chunks in ${cluster.files.length} file(s))`)
+        );
+        cluster.files.slice(0, CLUSTER_FILES_PRINTED).forEach((file) =>
+          console.log(chalk.gray(`   ${file.source} (${file.chunks.length})`))
+        );
+        if (cluster.files.length > CLUSTER_FILES_PRINTED) {
+          console.log(chalk.gray(`   ... and ${cluster.files.length - CLUSTER_FILES_PRINTED} more`));
+        }
+        const [central] = cluster.centralChunks;
+        if (central) {
+          console.log(
+            chalk.gray("   Central: ") +
+            formatLocation(central.source, central.startLine ?? 0, central.endLine ?? 0) +
+            (central.symbolName ? chalk.gray(` ${central.symbolName}`) : "")
+          );
+        }
+      }
+
+      if (summary.clusters.length > CLUSTERS_PRINTED) {
+        console.log(chalk.gray(`\n... and ${summary.clusters.length - CLUSTERS_PRINTED} more cluster(s)`));
+      }
+      if (summary.edgesIncomplete) {
+        console.log(chalk.yellow("\n⚠ Some chunks have no edges yet; re-run the indexer with --enable-graph to link them"));
+      }
+      console.log(chalk.gray(`\nFull summary: ${path.join(options.output, "graph-data", "clusters.json")}`));
+      console.log(chalk.gray(`Search one cluster with: embedder query <text> -o ${options.output} -m <model> --cluster <id>\n`));
+    } catch (error) {
+      handleError(error);
     }
   });
 
-program.parse();
+/**
+ * Values of the options added by addProviderOptions() (and -m)
+ */
+interface ProviderCliOptions {
+  provider: string;
+  baseUrl?: string;
+  model: string;
+  apiKeyEnv?: string;
+}
+
+/**
+ * Values of the options added by addIndexOptions()
+ * Numbers are strings, as parsed from the command line or set by applyConfig().
+ */
+interface IndexCliOptions extends ProviderCliOptions {
+  dir: string;
+  output: string;
+  tableName: string;
+  dimensions?: string;
+  ignore: string[];
+  batchSize: string;
+  batchTokens: string;
+  concurrency: string;
+  enableGraph: boolean;
+  graphThreshold: string;
+  graphTopK?: string;
+  graphEdges: string;
+  graphEf: string;
+  graphMemory: string;
+  includeWorkingTree: boolean;
+  reindexOnChange: boolean;
+  maxRetries: string;
+  retryDelay: string;
+  requestTimeout: string;
+  requestsPerSecond?: string;
+  tokensPerMinute?: string;
+  circuitBreaker: string;
+}
+
+/**
+ * Options that select the embedding provider, shared by every command
+ */
+function addProviderOptions(command: Command): Command {
+  return command
+    .option(
+      "--provider <name>",
+      `Embedding provider: ${PROVIDER_NAMES.join(", ")}`,
+      "openai"
+    )
+    .option(
+      "-u, --base-url <url>",
+      "Base URL of the embedding API (e.g., http://localhost:1234/v1 for LM Studio; " +
+      `required for openai, default: ${DEFAULT_BASE_URLS.ollama} for ollama)`
+    )
+    .option(
+      "--api-key-env <name>",
+      "Environment variable holding the API key (openai provider, default: no key is sent)"
+    );
+}
+
+/**
+ * Options shared by the index and watch commands
+ */
+function addIndexOptions(command: Command): Command {
+  return addProviderOptions(
+    command
+      .requiredOption("-d, --dir <path>", "Directory to index (the git repository)")
+      .requiredOption("-o, --output <path>", "Output path for LanceDB database")
+  )
+    .requiredOption(
+      "-m, --model <name>",
+      "Embedding model name (e.g., text-embedding-qwen3-embedding-0.6b)"
+    )
+    .option(
+      "-t, --table-name <name>",
+      "LanceDB table name",
+      "embeddings"
+    )
+    .option(
+      "--dimensions <number>",
+      "Embedding dimension size (default: detected from the model)"
+    )
+    .option(
+      "-i, --ignore <pattern>",
+      "Glob patterns to ignore (can be specified multiple times)",
+      (value: string, previous: string[] = []) => {
+        return [...previous, value];
+      },
+      [] as string[]
+    )
+    .option(
+      "-b, --batch-size <number>",
+      "Maximum chunks per embedding request (chunks from several files are combined)",
+      "32"
+    )
+    .option(
+      "--batch-tokens <number>",
+      "Maximum estimated tokens per embedding request",
+      "8192"
+    )
+    .option(
+      "--concurrency <number>",
+      "Number of files read and chunked in parallel",
+      "10"
+    )
+    .option(
+      "--enable-graph",
+      "Enable GraphRAG knowledge graph creation",
+      false
+    )
+    .option(
+      "--graph-threshold <number>",
+      "Similarity threshold for graph edges (0.0-1.0)",
+      "0.7"
+    )
+    .option(
+      "--graph-top-k <number>",
+      "Keep only each chunk's N most similar chunks as graph edges"
+    )
+    .option(
+      "--graph-edges <method>",
+      `Graph edge construction: ${EDGE_METHODS.join(", ")} (auto uses ann for large graphs)`,
+      "auto"
+    )
+    .option(
+      "--graph-ef <number>",
+      "Candidates kept per approximate neighbour search; higher is slower but finds more edges",
+      String(DEFAULT_GRAPH_EF)
+    )
+    .option(
+      "--graph-memory <mb>",
+      "Memory budget for graph edge construction; vectors are stored as int8 above it",
+      String(DEFAULT_GRAPH_MEMORY_MB)
+    )
+    .option(
+      "--include-working-tree",
+      "Also index staged, unstaged and untracked changes (diff and intelligent modes)",
+      false
+    )
+    .option(
+      "--reindex-on-change",
+      "Drop and rebuild the index if the model, dimension, base URL or chunking config changed",
+      false
+    )
+    .option(
+      "--max-retries <number>",
+      "Retries for a failed embedding request (timeouts, 429 and 5xx responses)",
+      "3"
+    )
+    .option(
+      "--retry-delay <ms>",
+      "Initial retry backoff, doubled on each retry",
+      "1000"
+    )
+    .option(
+      "--request-timeout <ms>",
+      "Abort and retry embedding requests that take longer than this",
+      "120000"
+    )
+    .option(
+      "--requests-per-second <number>",
+      "Limit embedding requests per second (default: unlimited)"
+    )
+    .option(
+      "--tokens-per-minute <number>",
+      "Limit estimated embedding tokens per minute (default: unlimited)"
+    )
+    .option(
+      "--circuit-breaker <number>",
+      "Stop the run after this many consecutive embedding requests fail",
+      "5"
+    );
+}
+
+/**
+ * Build ProviderOptions from the options added by addProviderOptions(), exiting on an unknown provider
+ */
+function buildProviderOptions(options: ProviderCliOptions): ProviderOptions {
+  const provider = options.provider as EmbeddingProviderName;
+  if (!PROVIDER_NAMES.includes(provider)) {
+    console.error(chalk.red.bold("\n✗ Error:"), `Invalid provider '${options.provider}'`);
+    console.error(chalk.gray(`Valid providers: ${PROVIDER_NAMES.join(", ")}`));
+    process.exit(1);
+  }
+
+  return {
+    provider,
+    model: options.model,
+    ...(options.baseUrl !== undefined && { baseUrl: options.baseUrl }),
+    ...(options.apiKeyEnv !== undefined && { apiKeyEnv: options.apiKeyEnv }),
+  };
+}
+
+/**
+ * Build EmbedderOptions from the options added by addIndexOptions()
+ */
+function buildEmbedderOptions(options: IndexCliOptions): EmbedderOptions {
+  const graphEdges = options.graphEdges as GraphEdgeMethod;
+  if (!EDGE_METHODS.includes(graphEdges)) {
+    console.error(chalk.red.bold("\n✗ Error:"), `Invalid graph edge method '${options.graphEdges}'`);
+    console.error(chalk.gray(`Valid methods: ${EDGE_METHODS.join(", ")}`));
+    process.exit(1);
+  }
+
+  return {
+    dir: options.dir,
+    output: options.output,
+    ...buildProviderOptions(options),
+    tableName: options.tableName,
+    ...(options.dimensions !== undefined && {
+      dimension: parsePositiveNumber(options.dimensions, "--dimensions"),
+    }),
+    ignore: options.ignore,
+    batchSize: parsePositiveNumber(options.batchSize, "--batch-size"),
+    batchTokens: parsePositiveNumber(options.batchTokens, "--batch-tokens"),
+    concurrency: parsePositiveNumber(options.concurrency, "--concurrency"),
+    enableGraph: options.enableGraph,
+    graphThreshold: parseSimilarity(options.graphThreshold, "--graph-threshold"),
+    ...(options.graphTopK !== undefined && {
+      graphTopK: parsePositiveNumber(options.graphTopK, "--graph-top-k"),
+    }),
+    graphEdges,
+    graphEf: parsePositiveNumber(options.graphEf, "--graph-ef"),
+    graphMemory: parsePositiveNumber(options.graphMemory, "--graph-memory"),
+    includeWorkingTree: options.includeWorkingTree,
+    reindexOnChange: options.reindexOnChange,
+    maxRetries: parseNonNegativeNumber(options.maxRetries, "--max-retries"),
+    retryDelay: parsePositiveNumber(options.retryDelay, "--retry-delay"),
+    requestTimeout: parsePositiveNumber(options.requestTimeout, "--request-timeout"),
+    ...(options.requestsPerSecond !== undefined && {
+      requestsPerSecond: parsePositiveRate(options.requestsPerSecond, "--requests-per-second"),
+    }),
+    ...(options.tokensPerMinute !== undefined && {
+      tokensPerMinute: parsePositiveNumber(options.tokensPerMinute, "--tokens-per-minute"),
+    }),
+    circuitBreakerThreshold: parsePositiveNumber(options.circuitBreaker, "--circuit-breaker"),
+    ...(loadedConfig?.config.chunking && { chunking: loadedConfig.config.chunking }),
+  };
+}
+
+/**
+ * Apply config file values to a command's options
+ * Values are stored with the "config" source: they replace defaults, flags
+ * parsed afterwards replace them, and repeatable flags (--ignore) add to them.
+ */
+function applyConfig(command: Command, config: EmbedderConfig): void {
+  for (const option of command.options) {
+    const name = option.attributeName();
+    const value = config[OPTION_CONFIG_KEYS[name] ?? name as keyof EmbedderConfig];
+
+    if (value === undefined) {
+      continue;
+    }
+
+    // Option values are strings when parsed from the command line
+    command.setOptionValueWithSource(name, typeof value === "number" ? String(value) : value, "config");
+  }
+}
+
+/**
+ * Parse a positive integer option, exiting with an error if invalid
+ */
+function parsePositiveNumber(value: string, flag: string): number {
+  const parsed = Number(value);
+  if (value.trim() === "" || !Number.isInteger(parsed) || parsed < 1) {
+    console.error(chalk.red.bold("\n✗ Error:"), `Invalid ${flag} '${value}' (must be a whole number of at least 1)`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+/**
+ * Parse an integer option that may be 0, exiting with an error if invalid
+ */
+function parseNonNegativeNumber(value: string, flag: string): number {
+  const parsed = Number(value);
+  if (value.trim() === "" || !Number.isInteger(parsed) || parsed < 0) {
+    console.error(chalk.red.bold("\n✗ Error:"), `Invalid ${flag} '${value}' (must be a whole number of at least 0)`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a positive, possibly fractional option (e.g., 0.5 requests per second)
+ */
+function parsePositiveRate(value: string, flag: string): number {
+  const parsed = parseFloat(value);
+  if (isNaN(parsed) || parsed <= 0) {
+    console.error(chalk.red.bold("\n✗ Error:"), `Invalid ${flag} '${value}'`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a similarity threshold option (0.0-1.0), exiting with an error if invalid
+ */
+function parseSimilarity(value: string, flag: string): number {
+  const parsed = Number(value);
+  if (value === "" || isNaN(parsed) || parsed < 0 || parsed > 1) {
+    console.error(chalk.red.bold("\n✗ Error:"), `Invalid ${flag} '${value}' (must be between 0 and 1)`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+/**
+ * Parse --edge-weights ("type=weight,..."), exiting with an error if invalid
+ */
+function parseEdgeWeights(value: string): Partial<GraphEdgeWeights> {
+  const weights: Partial<GraphEdgeWeights> = {};
+  for (const entry of value.split(",")) {
+    const [type, weight] = entry.split("=").map((part) => part.trim());
+    const parsed = Number(weight);
+    if (!EDGE_TYPES.includes(type as GraphEdgeType) || !weight || isNaN(parsed) || parsed < 0) {
+      console.error(chalk.red.bold("\n✗ Error:"), `Invalid --edge-weights entry '${entry}'`);
+      console.error(chalk.gray(`Expected type=weight with a weight >= 0 and a type from: ${EDGE_TYPES.join(", ")}`));
+      process.exit(1);
+    }
+    weights[type as GraphEdgeType] = parsed;
+  }
+  return weights;
+}
+
+/**
+ * Print the result of a dry run
+ */
+function printPlan(plan: IndexPlan, options: EmbedderOptions): void {
+  const relative = (filePath: string) => path.relative(options.dir, filePath) || filePath;
+
+  console.log(chalk.blue.bold("\nDry Run - nothing will be embedded or written\n"));
+  console.log(chalk.gray(`Directory: ${options.dir}`));
+  console.log(chalk.gray(`Output: ${options.output}`));
+  if (plan.reason) {
+    console.log(chalk.yellow(plan.reason));
+  }
+
+  if (plan.mode === null) {
+    console.log(chalk.green("\n✓ Nothing to do"));
+    return;
+  }
+
+  if (plan.mode === 'diff') {
+    const diff = plan.diff!;
+    console.log(chalk.cyan(`\nMode: Diff (${plan.fromCommit!.substring(0, 7)} → ${plan.toCommit!.substring(0, 7)})`));
+    console.log(chalk.cyan("Resolved changes:"));
+    diff.added.forEach((file) => console.log(chalk.green(`  + ${relative(file)}`)));
+    diff.modified.forEach((file) => console.log(chalk.yellow(`  ~ ${relative(file)}`)));
+    diff.deleted.forEach((file) => console.log(chalk.red(`  - ${relative(file)}`)));
+    diff.renamed.forEach(({ from, to }) => console.log(chalk.blue(`  ↔ ${relative(from)} → ${relative(to)}`)));
+    if (diff.added.length + diff.modified.length + diff.deleted.length + diff.renamed.length === 0) {
+      console.log(chalk.gray("  (none)"));
+    }
+  } else {
+    console.log(chalk.cyan("\nMode: Full indexing"));
+  }
+
+  const planned = [...plan.add, ...plan.update];
+  const chunks = planned.reduce((total, file) => total + file.chunks, 0);
+  const tokens = planned.reduce((total, file) => total + file.tokens, 0);
+
+  console.log(chalk.cyan("\nFiles:"));
+  console.log(chalk.green(`  + Add: ${plan.add.length}`));
+  console.log(chalk.yellow(`  ~ Update: ${plan.update.length}`));
+  console.log(chalk.red(`  - Delete: ${plan.delete.length}`));
+  console.log(chalk.gray(`  = Skip (unchanged): ${plan.skip.length}`));
+  if (plan.failed.length > 0) {
+    console.log(chalk.red(`  ✗ Cannot index: ${plan.failed.length}`));
+    plan.failed.forEach(({ path: file, error }) => console.log(chalk.red(`      ${relative(file)}: ${error}`)));
+  }
+
+  if (planned.length > 0) {
+    const byType = new Map<string, { files: number; chunks: number; tokens: number }>();
+    for (const file of planned) {
+      const totals = byType.get(file.fileType) ?? { files: 0, chunks: 0, tokens: 0 };
+      totals.files++;
+      totals.chunks += file.chunks;
+      totals.tokens += file.tokens;
+      byType.set(file.fileType, totals);
+    }
+
+    console.log(chalk.cyan("\nChunks by file type:"));
+    [...byType.entries()]
+      .sort(([, a], [, b]) => b.chunks - a.chunks)
+      .forEach(([fileType, totals]) => console.log(
+        `  ${fileType.padEnd(10)} ${String(totals.chunks).padStart(7)} chunks  ` +
+        chalk.gray(`${totals.files} file(s), ~${totals.tokens} tokens`)
+      ));
+
+    // Same limits as the batcher: a request is full at either limit
+    const requests = Math.max(
+      Math.ceil(chunks / options.batchSize!),
+      Math.ceil(tokens / options.batchTokens!)
+    );
+    console.log(chalk.cyan("\nEstimated cost:"));
+    console.log(`  Chunks: ${chunks}`);
+    console.log(`  Tokens: ~${tokens} (4 characters per token)`);
+    console.log(`  Requests: ~${requests} (--batch-size ${options.batchSize}, --batch-tokens ${options.batchTokens})`);
+
+    console.log(chalk.cyan(`\nLargest files:`));
+    [...planned]
+      .sort((a, b) => b.tokens - a.tokens)
+      .slice(0, PLAN_LARGEST_FILES)
+      .forEach((file) => console.log(
+        `  ${relative(file.path)} ` + chalk.gray(`(${file.bytes} bytes, ${file.chunks} chunks, ~${file.tokens} tokens)`)
+      ));
+  }
+
+  if (plan.excluded.length > 0) {
+    const byRule = new Map<string, string[]>();
+    for (const excluded of plan.excluded) {
+      const rule = `${excluded.pattern} (${excluded.source})`;
+      byRule.set(rule, [...(byRule.get(rule) ?? []), excluded.path]);
+    }
+
+    console.log(chalk.cyan(`\nExcluded by ignore rules (${plan.excluded.length} path(s)):`));
+    for (const [rule, paths] of byRule) {
+      console.log(`  ${rule}`);
+      paths.slice(0, PLAN_EXCLUDED_PATHS).forEach((excluded) => console.log(chalk.gray(`      ${excluded}`)));
+      if (paths.length > PLAN_EXCLUDED_PATHS) {
+        console.log(chalk.gray(`      … and ${paths.length - PLAN_EXCLUDED_PATHS} more`));
+      }
+    }
+  }
+
+  console.log();
+}
+
+/**
+ * Format a chunk location as file:start-end (just the file when lines are unknown)
+ */
+function formatLocation(source: string, startLine: number, endLine: number): string {
+  return startLine > 0 ? `${source}:${startLine}-${endLine}` : source;
+}
+
+/**
+ * Collapse whitespace and truncate chunk text for terminal display
+ */
+function formatPreview(text: string, maxLength: number = 200): string {
+  const collapsed = text.replace(/\s+/g, " ").trim();
+  return collapsed.length > maxLength
+    ? collapsed.substring(0, maxLength) + "…"
+    : collapsed;
+}
+
+function handleError(error: unknown): never {
+  console.error(
+    chalk.red.bold("\n✗ Error:"),
+    error instanceof Error ? error.message : String(error)
+  );
+  if (error instanceof Error && error.stack) {
+    console.error(chalk.gray("\nStack trace:"));
+    console.error(chalk.gray(error.stack));
+  }
+  process.exit(1);
+}
+
+program.parseAsync();
@@ -0,0 +1,47 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Replace a file so that readers (and a crash at any point) see either the old
+ * or the new content, never a truncated file: the data is written to a temp
+ * file in the same directory, flushed to disk, then renamed over the target.
+ */
+export function writeFileAtomic(filePath: string, data: string | Buffer): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+
+  try {
+    const fd = fs.openSync(tempPath, "w");
+    try {
+      fs.writeFileSync(fd, data);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+
+  fsyncDirectory(path.dirname(filePath));
+}
+
+/**
+ * Flush a directory entry change (rename, unlink) to disk
+ */
+export function fsyncDirectory(dir: string): void {
+  let fd: number;
+  try {
+    fd = fs.openSync(dir, "r");
+  } catch (error) {
+    return;
+  }
+
+  try {
+    fs.fsyncSync(fd);
+  } catch (error) {
+    // Directories can't be fsynced on every platform (e.g., Windows)
+  } finally {
+    fs.closeSync(fd);
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Position of a chunk within its source file
+ * Lines are 1-based and inclusive; bytes are 0-based UTF-8 offsets (end exclusive).
+ * All fields are 0 when the chunk text could not be found in the file
+ * (e.g., HTML or JSON strategies that rewrite the content).
+ */
+export interface ChunkLocation {
+  startLine: number;
+  endLine: number;
+  startByte: number;
+  endByte: number;
+}
+
+const UNKNOWN_LOCATION: ChunkLocation = { startLine: 0, endLine: 0, startByte: 0, endByte: 0 };
+
+/**
+ * Locate each chunk in the file content
+ * Chunks are searched in order starting just after the previous match, so
+ * overlapping chunks and repeated text resolve to the right occurrence.
+ * Chunks whose whitespace was rewritten (e.g., semantic-markdown drops blank
+ * lines) are matched line by line instead.
+ * @param content - Full file content
+ * @param chunkTexts - Chunk texts in file order
+ * @returns One location per chunk
+ */
+export function locateChunks(content: string, chunkTexts: string[]): ChunkLocation[] {
+  const lineStarts = getLineStarts(content);
+  const toByte = createByteOffsetResolver(content);
+  const locations: ChunkLocation[] = [];
+  let cursor = 0;
+
+  for (const text of chunkTexts) {
+    // Chunkers may drop or reorder content; retry from the top of the file
+    const range = findRange(content, text, cursor) ?? findRange(content, text, 0);
+
+    if (!range) {
+      locations.push({ ...UNKNOWN_LOCATION });
+      continue;
+    }
+
+    const [index, end] = range;
+    locations.push({
+      startLine: lineAt(lineStarts, index),
+      endLine: lineAt(lineStarts, Math.max(index, end - 1)),
+      startByte: toByte(index),
+      endByte: toByte(end),
+    });
+
+    cursor = index + 1;
+  }
+
+  return locations;
+}
+
+/**
+ * Find the [start, end) character range of a chunk, searching from a position
+ * Tries an exact match first, then each non-empty line in order.
+ */
+function findRange(content: string, text: string, from: number): [number, number] | null {
+  const needle = text.trim();
+  if (!needle) {
+    return null;
+  }
+
+  const index = content.indexOf(needle, from);
+  if (index !== -1) {
+    return [index, index + needle.length];
+  }
+
+  const lines = needle.split("\n").map((line) => line.trim()).filter(Boolean);
+  let start = -1;
+  let position = from;
+
+  for (const line of lines) {
+    const lineIndex = content.indexOf(line, position);
+    if (lineIndex === -1) {
+      return null;
+    }
+    if (start === -1) {
+      start = lineIndex;
+    }
+    position = lineIndex + line.length;
+  }
+
+  return [start, position];
+}
+
+/**
+ * Convert character indices to UTF-8 byte offsets
+ * Lookups are incremental from the previous index, since chunks mostly move forward.
+ */
+function createByteOffsetResolver(content: string): (index: number) => number {
+  let lastIndex = 0;
+  let lastByte = 0;
+
+  return (index: number) => {
+    if (index < lastIndex) {
+      lastIndex = 0;
+      lastByte = 0;
+    }
+
+    lastByte += Buffer.byteLength(content.slice(lastIndex, index), "utf-8");
+    lastIndex = index;
+    return lastByte;
+  };
+}
+
+function getLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content.charCodeAt(i) === 10) {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Binary search for the 1-based line containing a character index
+ */
+function lineAt(lineStarts: number[], index: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineStarts[mid]! <= index) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return low + 1;
+}
@@ -0,0 +1,238 @@
+import type { ClusterChunk, ClusterInfo, ClusterOptions, ClusterSummary } from "../types/index.js";
+import { GraphStore } from "./graph-store.js";
+import { buildWeightedGraph, detectCommunities, type WeightedGraph } from "./community.js";
+
+export const DEFAULT_CLUSTER_RESOLUTION = 1;
+export const DEFAULT_CLUSTER_MIN_SIZE = 3;
+export const DEFAULT_CLUSTER_KEYWORDS = 10;
+export const DEFAULT_CLUSTER_CENTRAL_CHUNKS = 5;
+const PREVIEW_LENGTH = 200;
+const MIN_TERM_LENGTH = 3;
+
+// Words and keywords common to most code and prose, never useful as cluster keywords
+const STOP_WORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "all", "any", "can", "has", "have", "was", "were", "with",
+  "this", "that", "these", "those", "from", "into", "then", "than", "when", "where", "which", "while", "what",
+  "will", "would", "should", "could", "been", "being", "its", "our", "your", "their", "there", "here", "also",
+  "only", "each", "such", "some", "more", "most", "other", "about", "over", "under", "use", "used", "using",
+  "const", "let", "var", "function", "return", "import", "export", "default", "class", "interface", "type",
+  "extends", "implements", "new", "null", "undefined", "true", "false", "void", "async", "await", "public",
+  "private", "protected", "static", "readonly", "string", "number", "boolean", "unknown", "never",
+  "else", "case", "break", "continue", "switch", "try", "catch", "finally", "throw", "throws", "typeof",
+  "instanceof", "def", "self", "none", "elif", "pass", "lambda", "yield", "func", "package", "struct", "nil",
+  "err", "int", "str", "bool", "get", "set", "value", "values", "data", "result", "options", "args", "http",
+  "https", "www", "com",
+]);
+
+/**
+ * ClusterAnalyzer groups the chunks of the knowledge graph into communities
+ * of related code (Louvain on the similarity edges) and describes each one by
+ * its files, its most central chunks and its keywords.
+ *
+ * The chunk log is read twice, once for the node list and once for the
+ * keyword counts, so chunk text is never held in memory all at once. The
+ * result is stored in the graph store: the cluster of each chunk, and the
+ * summaries in graph-data/clusters.json.
+ */
+export class ClusterAnalyzer {
+  private options: ClusterOptions;
+
+  constructor(options: ClusterOptions) {
+    this.options = options;
+  }
+
+  public run(): ClusterSummary {
+    if (!GraphStore.exists(this.options.output)) {
+      throw new Error(
+        `No graph data found in ${this.options.output}\n\n` +
+        `Suggestions:\n` +
+        `  • Re-run the indexer with --enable-graph`
+      );
+    }
+
+    const graphStore = new GraphStore(this.options.output);
+    const stored = graphStore.getConfig().threshold;
+    const threshold = this.options.threshold ?? stored;
+    if (threshold < stored) {
+      throw new Error(
+        `Similarity edges are only stored above ${stored}, so --threshold ${threshold} can't be used\n\n` +
+        `Suggestions:\n` +
+        `  • Use --threshold ${stored} or higher\n` +
+        `  • Re-index with --graph-threshold ${threshold} to store more edges`
+      );
+    }
+
+    const nodes = new Map<string, number>(); // Chunk id → node
+    for (const chunk of graphStore.iterateChunks()) {
+      nodes.set(chunk.id, nodes.size);
+    }
+
+    const graph = buildWeightedGraph(nodes.size, function* () {
+      for (const { source, target, similarity } of graphStore.iterateEdges(threshold)) {
+        const a = nodes.get(source);
+        const b = nodes.get(target);
+        if (a !== undefined && b !== undefined) {
+          yield [a, b, similarity];
+        }
+      }
+    });
+    const { communities, modularity } = detectCommunities(graph, this.options.resolution);
+
+    const clusterOf = this.numberClusters(communities);
+    const clusterCount = clusterOf.reduce((max, cluster) => Math.max(max, cluster + 1), 0);
+    const strengths = internalStrengths(graph, communities);
+    const central = this.pickCentralChunks(clusterOf, clusterCount, strengths);
+
+    // Second pass: membership, keyword counts and previews of central chunks
+    const assignments = new Map<string, number>();
+    const files: Array<Map<string, number[]>> = Array.from({ length: clusterCount }, () => new Map());
+    const terms: Array<Map<string, number>> = Array.from({ length: clusterCount }, () => new Map());
+    const centralChunks = new Map<number, ClusterChunk>();
+    let node = 0;
+    for (const chunk of graphStore.iterateChunks()) {
+      const cluster = clusterOf[node]!;
+      if (cluster >= 0) {
+        assignments.set(chunk.id, cluster);
+        const indexes = files[cluster]!.get(chunk.source) ?? [];
+        indexes.push(chunk.chunkIndex);
+        files[cluster]!.set(chunk.source, indexes);
+        for (const term of extractTerms(chunk.text)) {
+          terms[cluster]!.set(term, (terms[cluster]!.get(term) ?? 0) + 1);
+        }
+
+        if (central.has(node)) {
+          centralChunks.set(node, {
+            id: chunk.id,
+            source: chunk.source,
+            chunkIndex: chunk.chunkIndex,
+            ...(chunk.startLine !== undefined && { startLine: chunk.startLine }),
+            ...(chunk.endLine !== undefined && { endLine: chunk.endLine }),
+            ...(chunk.symbolName && { symbolName: chunk.symbolName }),
+            preview: formatPreview(chunk.text),
+            strength: strengths[node]!,
+          });
+        }
+      }
+      node++;
+    }
+
+    const keywords = pickKeywords(terms, this.options.keywords);
+    const clusters: ClusterInfo[] = files.map((byFile, id) => ({
+      id,
+      size: [...byFile.values()].reduce((sum, indexes) => sum + indexes.length, 0),
+      files: [...byFile]
+        .map(([source, indexes]) => ({ source, chunks: indexes.sort((a, b) => a - b) }))
+        .sort((a, b) => b.chunks.length - a.chunks.length || a.source.localeCompare(b.source)),
+      centralChunks: [...centralChunks.entries()]
+        .filter(([chunkNode]) => clusterOf[chunkNode] === id)
+        .map(([, chunk]) => chunk)
+        .sort((a, b) => b.strength - a.strength),
+      keywords: keywords[id]!,
+    }));
+
+    const summary: ClusterSummary = {
+      createdAt: Date.now(),
+      threshold,
+      resolution: this.options.resolution,
+      modularity,
+      chunkCount: nodes.size,
+      clusteredChunks: assignments.size,
+      edgesIncomplete: graphStore.needsEdges(),
+      clusters,
+    };
+    graphStore.saveClusters(assignments, summary);
+    return summary;
+  }
+
+  /**
+   * Cluster id of each node: communities of at least minSize chunks are
+   * numbered by size, largest first; nodes in smaller ones get -1
+   */
+  private numberClusters(communities: Int32Array): Int32Array {
+    const sizes = new Map<number, number>();
+    communities.forEach((community) => sizes.set(community, (sizes.get(community) ?? 0) + 1));
+
+    // Ties keep the order of first appearance (i.e., of the log), so the numbering is reproducible
+    const ids = new Map<number, number>();
+    [...sizes]
+      .filter(([, size]) => size >= this.options.minSize)
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([community], id) => ids.set(community, id));
+
+    return communities.map((community) => ids.get(community) ?? -1);
+  }
+
+  /**
+   * Nodes with the highest strength within their cluster, up to centralChunks per cluster
+   */
+  private pickCentralChunks(clusterOf: Int32Array, clusterCount: number, strengths: Float64Array): Set<number> {
+    const members: number[][] = Array.from({ length: clusterCount }, () => []);
+    clusterOf.forEach((cluster, node) => cluster >= 0 && members[cluster]!.push(node));
+
+    const central = new Set<number>();
+    for (const nodes of members) {
+      nodes
+        .sort((a, b) => strengths[b]! - strengths[a]!)
+        .slice(0, this.options.centralChunks)
+        .forEach((node) => central.add(node));
+    }
+    return central;
+  }
+}
+
+/**
+ * Sum of each node's edge weights to nodes of its own community
+ */
+function internalStrengths(graph: WeightedGraph, communities: Int32Array): Float64Array {
+  const strengths = new Float64Array(graph.nodeCount);
+  for (let node = 0; node < graph.nodeCount; node++) {
+    for (let e = graph.offsets[node]!; e < graph.offsets[node + 1]!; e++) {
+      if (communities[graph.targets[e]!] === communities[node]) {
+        strengths[node]! += graph.weights[e]!;
+      }
+    }
+  }
+  return strengths;
+}
+
+/**
+ * Rank each cluster's terms by TF-IDF, with clusters as the documents
+ */
+function pickKeywords(terms: Array<Map<string, number>>, count: number): string[][] {
+  const clustersWithTerm = new Map<string, number>();
+  terms.forEach((counts) => counts.forEach((_, term) => clustersWithTerm.set(term, (clustersWithTerm.get(term) ?? 0) + 1)));
+
+  return terms.map((counts) => {
+    const total = [...counts.values()].reduce((sum, n) => sum + n, 0);
+    return [...counts]
+      .map(([term, n]): [string, number] => [term, (n / total) * Math.log(1 + terms.length / clustersWithTerm.get(term)!)])
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, count)
+      .map(([term]) => term);
+  });
+}
+
+/**
+ * Lower-case words of a chunk, with identifiers split at camelCase and snake_case boundaries
+ */
+function extractTerms(text: string): string[] {
+  const terms: string[] = [];
+  for (const [word] of text.matchAll(/[A-Za-z][A-Za-z0-9]*/g)) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+      .toLowerCase()
+      .split(" ");
+    for (const part of parts) {
+      if (part.length >= MIN_TERM_LENGTH && !/^\d/.test(part) && !STOP_WORDS.has(part)) {
+        terms.push(part);
+      }
+    }
+  }
+  return terms;
+}
+
+function formatPreview(text: string): string {
+  const collapsed = text.replace(/\s+/g, " ").trim();
+  return collapsed.length > PREVIEW_LENGTH ? collapsed.substring(0, PREVIEW_LENGTH) + "…" : collapsed;
+}
@@ -0,0 +1,406 @@
+import { Parser, Language } from "web-tree-sitter";
+import type { Node } from "web-tree-sitter";
+import { MDocument } from "@mastra/rag";
+import { createRequire } from "module";
+import * as path from "path";
+import type { CodeChunk, CodeSymbol, SymbolKind } from "../types/index.js";
+
+const require = createRequire(import.meta.url);
+
+const DEFAULT_MAX_SIZE = 1500; // Characters per chunk; most functions fit in one chunk
+const DEFAULT_OVERLAP = 50; // Overlap used when a declaration must be split recursively
+
+interface LanguageSpec {
+  // WASM grammar name in tree-sitter-wasms (out/tree-sitter-<grammar>.wasm)
+  grammar: string;
+  // Top-level node types that declare a symbol
+  declarations: Record<string, SymbolKind>;
+  // Node types that declare a symbol inside a class, interface, impl or trait body
+  members: Record<string, SymbolKind>;
+  // Node types that wrap a declaration, mapped to the field holding it
+  wrappers: Record<string, string>;
+}
+
+const TYPESCRIPT_DECLARATIONS: Record<string, SymbolKind> = {
+  function_declaration: "function",
+  generator_function_declaration: "function",
+  class_declaration: "class",
+  abstract_class_declaration: "class",
+  interface_declaration: "interface",
+  type_alias_declaration: "type",
+  enum_declaration: "enum",
+  lexical_declaration: "variable",
+  variable_declaration: "variable",
+};
+
+const TYPESCRIPT_MEMBERS: Record<string, SymbolKind> = {
+  method_definition: "method",
+  abstract_method_signature: "method",
+  method_signature: "method",
+  public_field_definition: "property",
+  field_definition: "property",
+  property_signature: "property",
+};
+
+const TYPESCRIPT_SPEC: Omit<LanguageSpec, "grammar"> = {
+  declarations: TYPESCRIPT_DECLARATIONS,
+  members: TYPESCRIPT_MEMBERS,
+  wrappers: { export_statement: "declaration" },
+};
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  typescript: { grammar: "typescript", ...TYPESCRIPT_SPEC },
+  tsx: { grammar: "tsx", ...TYPESCRIPT_SPEC },
+  javascript: { grammar: "javascript", ...TYPESCRIPT_SPEC },
+  python: {
+    grammar: "python",
+    declarations: {
+      function_definition: "function",
+      class_definition: "class",
+    },
+    members: {
+      function_definition: "method",
+    },
+    wrappers: { decorated_definition: "definition" },
+  },
+  go: {
+    grammar: "go",
+    declarations: {
+      function_declaration: "function",
+      method_declaration: "method",
+      type_declaration: "type",
+      const_declaration: "variable",
+      var_declaration: "variable",
+    },
+    members: {},
+    wrappers: {},
+  },
+  java: {
+    grammar: "java",
+    declarations: {
+      class_declaration: "class",
+      interface_declaration: "interface",
+      enum_declaration: "enum",
+      record_declaration: "class",
+    },
+    members: {
+      method_declaration: "method",
+      constructor_declaration: "constructor",
+      field_declaration: "property",
+      class_declaration: "class",
+      interface_declaration: "interface",
+    },
+    wrappers: {},
+  },
+  rust: {
+    grammar: "rust",
+    declarations: {
+      function_item: "function",
+      struct_item: "struct",
+      enum_item: "enum",
+      trait_item: "trait",
+      impl_item: "impl",
+      mod_item: "module",
+      type_item: "type",
+      const_item: "variable",
+      static_item: "variable",
+    },
+    members: {
+      function_item: "method",
+      function_signature_item: "method",
+    },
+    wrappers: {},
+  },
+};
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ".ts": "typescript",
+  ".mts": "typescript",
+  ".cts": "typescript",
+  ".tsx": "tsx",
+  ".js": "javascript",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".jsx": "javascript",
+  ".py": "python",
+  ".go": "go",
+  ".java": "java",
+  ".rs": "rust",
+};
+
+// Declarations that are split into their members when too large; anything else is split recursively
+const CONTAINER_KINDS = new Set<SymbolKind>(["class", "interface", "impl", "trait", "module", "struct", "enum"]);
+
+// Declarations whose symbol name lives on a nested child (e.g., `const x = ...`, Go `type X struct`)
+const NAMED_CHILD_TYPES = new Set(["variable_declarator", "type_spec", "const_spec", "var_spec"]);
+
+interface CodeUnit {
+  start: number;
+  end: number;
+  endRow: number; // Line of the last node, used to attach trailing comments
+  symbols: CodeSymbol[];
+}
+
+/**
+ * CodeChunker splits source files along syntax tree boundaries.
+ *
+ * Top-level declarations (functions, classes, interfaces, ...) become chunks.
+ * Small adjacent declarations are merged up to maxSize, oversized classes are
+ * split into their members, and anything still too large falls back to
+ * recursive character splitting. Leading comments stay with their declaration.
+ */
+export class CodeChunker {
+  private static parserInit: Promise<void> | null = null;
+  // Shared by all instances so chunkers with different sizes reuse loaded grammars
+  private static parsers: Map<string, Parser> = new Map();
+  private maxSize: number;
+  private overlap: number;
+
+  constructor(maxSize: number = DEFAULT_MAX_SIZE, overlap: number = DEFAULT_OVERLAP) {
+    this.maxSize = maxSize;
+    this.overlap = overlap;
+  }
+
+  /**
+   * Get the syntax-aware language for a file, or null if unsupported
+   */
+  public static getLanguage(filePath: string): string | null {
+    const ext = path.extname(filePath).toLowerCase();
+    return EXTENSION_LANGUAGES[ext] ?? null;
+  }
+
+  private async getParser(language: string): Promise<Parser> {
+    const cached = CodeChunker.parsers.get(language);
+    if (cached) {
+      return cached;
+    }
+
+    const spec = LANGUAGES[language];
+    if (!spec) {
+      throw new Error(`Unsupported language: ${language}`);
+    }
+
+    if (!CodeChunker.parserInit) {
+      CodeChunker.parserInit = Parser.init();
+    }
+    await CodeChunker.parserInit;
+
+    const wasmPath = require.resolve(`tree-sitter-wasms/out/tree-sitter-${spec.grammar}.wasm`);
+    const grammar = await Language.load(wasmPath);
+    const parser = new Parser();
+    parser.setLanguage(grammar);
+
+    CodeChunker.parsers.set(language, parser);
+    return parser;
+  }
+
+  /**
+   * Chunk a source file along declaration boundaries
+   * @param content - File content
+   * @param filePath - File path (used for language detection and chunk metadata)
+   */
+  public async chunk(content: string, filePath: string): Promise<CodeChunk[]> {
+    const language = CodeChunker.getLanguage(filePath);
+    if (!language) {
+      throw new Error(`No syntax-aware chunker for ${filePath}`);
+    }
+
+    const parser = await this.getParser(language);
+    const tree = parser.parse(content);
+    if (!tree) {
+      throw new Error(`Failed to parse ${filePath}`);
+    }
+
+    try {
+      const spec = LANGUAGES[language]!;
+      const units = this.buildUnits(namedChildren(tree.rootNode), spec, null);
+      const groups = this.mergeUnits(units);
+
+      const chunks: CodeChunk[] = [];
+      for (const group of groups) {
+        chunks.push(...(await this.emitChunks(content, group, filePath)));
+      }
+      return chunks;
+    } finally {
+      tree.delete();
+    }
+  }
+
+  /**
+   * Turn a list of sibling nodes into units, expanding oversized containers into their members
+   */
+  private buildUnits(nodes: Node[], spec: LanguageSpec, parent: string | null): CodeUnit[] {
+    const units: CodeUnit[] = [];
+    let pendingStart: number | null = null; // Start of comments waiting for their declaration
+
+    for (const node of nodes) {
+      if (node.type.includes("comment")) {
+        // Trailing comment on the same line as the previous declaration belongs to it
+        const previous = units[units.length - 1];
+        if (pendingStart === null && previous && previous.endRow === node.startPosition.row) {
+          previous.end = node.endIndex;
+          continue;
+        }
+
+        pendingStart ??= node.startIndex;
+        continue;
+      }
+
+      const start = pendingStart ?? node.startIndex;
+      pendingStart = null;
+
+      const declaration = this.unwrap(node, spec);
+      const symbol = this.getSymbol(declaration, spec, parent);
+
+      if (symbol && CONTAINER_KINDS.has(symbol.kind) && node.endIndex - start > this.maxSize) {
+        const body = declaration.childForFieldName("body");
+        const members = body ? namedChildren(body) : [];
+
+        if (members.length > 0) {
+          const first = members[0]!;
+          const last = members[members.length - 1]!;
+
+          // Header (signature and opening brace), members, then footer (closing brace)
+          units.push({ start, end: first.startIndex, endRow: first.startPosition.row, symbols: [symbol] });
+          units.push(...this.buildUnits(members, spec, symbol.name));
+          units.push({ start: last.endIndex, end: node.endIndex, endRow: node.endPosition.row, symbols: [symbol] });
+          continue;
+        }
+      }
+
+      units.push({ start, end: node.endIndex, endRow: node.endPosition.row, symbols: symbol ? [symbol] : [] });
+    }
+
+    // Trailing comments with no declaration after them
+    if (pendingStart !== null && nodes.length > 0) {
+      const last = nodes[nodes.length - 1]!;
+      units.push({ start: pendingStart, end: last.endIndex, endRow: last.endPosition.row, symbols: [] });
+    }
+
+    return units;
+  }
+
+  /**
+   * Merge adjacent small units while they fit within maxSize
+   */
+  private mergeUnits(units: CodeUnit[]): CodeUnit[] {
+    const groups: CodeUnit[] = [];
+    let current: CodeUnit | null = null;
+
+    for (const unit of units) {
+      if (current && unit.end - current.start <= this.maxSize) {
+        current.end = unit.end;
+        current.endRow = unit.endRow;
+        current.symbols.push(...unit.symbols);
+        continue;
+      }
+
+      if (current) {
+        groups.push(current);
+      }
+      current = { ...unit, symbols: [...unit.symbols] };
+    }
+
+    if (current) {
+      groups.push(current);
+    }
+
+    return groups;
+  }
+
+  private async emitChunks(content: string, group: CodeUnit, filePath: string): Promise<CodeChunk[]> {
+    const text = content.slice(group.start, group.end).trim();
+    if (!text) {
+      return [];
+    }
+
+    const metadata = {
+      source: filePath,
+      ...summarizeSymbols(group.symbols),
+    };
+
+    if (text.length <= this.maxSize) {
+      return [{ text, metadata }];
+    }
+
+    // Single declaration that is still too large - fall back to recursive splitting
+    const pieces = await MDocument.fromText(text, { source: filePath }).chunk({
+      strategy: "recursive",
+      maxSize: this.maxSize,
+      overlap: this.overlap,
+    });
+
+    return pieces.map((piece) => ({ text: piece.text, metadata }));
+  }
+
+  /**
+   * Unwrap export statements, decorators and similar wrappers
+   */
+  private unwrap(node: Node, spec: LanguageSpec): Node {
+    const field = spec.wrappers[node.type];
+    if (!field) {
+      return node;
+    }
+
+    const inner = node.childForFieldName(field);
+    return inner ? this.unwrap(inner, spec) : node;
+  }
+
+  private getSymbol(node: Node, spec: LanguageSpec, parent: string | null): CodeSymbol | null {
+    const kind = parent ? spec.members[node.type] : spec.declarations[node.type];
+    if (!kind) {
+      return null;
+    }
+
+    const named = node.childForFieldName("name")
+      ? node
+      : namedChildren(node).find((child) => NAMED_CHILD_TYPES.has(child.type));
+    const name = named?.childForFieldName("name")?.text ?? node.childForFieldName("type")?.text;
+    if (!name) {
+      return null;
+    }
+
+    return {
+      name: parent ? `${parent}.${name}` : name,
+      kind: this.refineKind(kind, named ?? node),
+    };
+  }
+
+  /**
+   * Narrow generic kinds using the declaration's value or type
+   * e.g., `const f = () => {}` is a function, Go `type S struct` is a struct
+   */
+  private refineKind(kind: SymbolKind, node: Node): SymbolKind {
+    if (kind === "variable") {
+      const value = node.childForFieldName("value")?.type;
+      if (value === "arrow_function" || value === "function_expression" || value === "function") {
+        return "function";
+      }
+    }
+
+    if (kind === "type") {
+      const type = node.childForFieldName("type")?.type;
+      if (type === "struct_type") return "struct";
+      if (type === "interface_type") return "interface";
+    }
+
+    return kind;
+  }
+}
+
+function namedChildren(node: Node): Node[] {
+  return node.namedChildren.filter((child): child is Node => child !== null);
+}
+
+/**
+ * Collapse the symbols in a chunk into flat metadata fields
+ * Merged chunks list every symbol name, and every distinct kind, comma separated.
+ */
+function summarizeSymbols(symbols: CodeSymbol[]): { symbolName: string; symbolKind: string } {
+  const names = [...new Set(symbols.map((s) => s.name))];
+  const kinds = [...new Set(symbols.map((s) => s.kind))];
+  return {
+    symbolName: names.join(", "),
+    symbolKind: kinds.join(", "),
+  };
+}
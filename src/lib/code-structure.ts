@@ -0,0 +1,303 @@
+import * as path from "path";
+import type { GraphChunkData, GraphEdgeType, GraphEdgeWeights, StructuralEdgeType } from "../types/index.js";
+
+export const EDGE_TYPES: GraphEdgeType[] = ["semantic", "contains", "imports", "references"];
+export const STRUCTURAL_EDGE_TYPES: StructuralEdgeType[] = ["contains", "imports", "references"];
+
+// Random-walk weight of each edge type; semantic edges are scaled by their similarity
+export const DEFAULT_EDGE_WEIGHTS: GraphEdgeWeights = {
+  semantic: 1,
+  contains: 0.5,
+  imports: 0.5,
+  references: 0.8,
+};
+
+export const FILE_NODE_PREFIX = "file:"; // Graph node id of a source file is this + its path
+
+const MIN_SYMBOL_LENGTH = 3; // Shorter names match too many unrelated identifiers
+const MAX_DEFINITIONS = 3; // Names defined by more chunks than this are too ambiguous to link
+
+const SCRIPT_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+// TypeScript ESM imports name the compiled file (./foo.js for ./foo.ts)
+const COMPILED_EXTENSIONS: Record<string, string[]> = {
+  ".js": [".ts", ".tsx"],
+  ".jsx": [".tsx"],
+  ".mjs": [".mts"],
+  ".cjs": [".cts"],
+};
+
+const SCRIPT_IMPORT_PATTERNS = [
+  /(?:^|[^\w$.])(?:import|export)\s[^;'"`]*?\bfrom\s*["']([^"']+)["']/g, // import x from "y", export * from "y"
+  /(?:^|[^\w$.])import\s*["']([^"']+)["']/g, // import "y"
+  /(?:^|[^\w$.])(?:require|import)\s*\(\s*["']([^"']+)["']\s*\)/g, // require("y"), import("y")
+];
+const PYTHON_IMPORT_PATTERN = /^[ \t]*import[ \t]+([\w. \t,]+)/gm;
+const PYTHON_FROM_IMPORT_PATTERN = /^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(?:\(([^)]*)\)|([\w \t,]+))/gm;
+const GO_IMPORT_BLOCK_PATTERN = /^import[ \t]*\(([^)]*)\)/gm;
+const GO_IMPORT_PATTERN = /^import[ \t]+(?:[\w.]+[ \t]+)?"([^"]+)"/gm;
+const IDENTIFIER_PATTERN = /[A-Za-z_$][\w$]*/g;
+
+/**
+ * Structural edge between graph nodes: chunk ids, or FILE_NODE_PREFIX + path for files
+ */
+export type StructuralEdgeRecord = [type: StructuralEdgeType, source: string, target: string];
+
+/**
+ * Derive typed edges from chunk text and symbol metadata
+ *
+ * - contains: file → each of its chunks
+ * - imports: file → file it imports (relative TS/JS imports, Python modules, Go packages)
+ * - references: chunk defining a symbol → chunk using it, within the same file,
+ *   a file that imports the defining file, or (Go) the same package
+ *
+ * Imports are matched with patterns rather than parsed, so commented-out
+ * imports count too. Package imports that aren't in the repository are ignored.
+ */
+export function buildStructuralEdges(chunks: GraphChunkData[]): StructuralEdgeRecord[] {
+  const edges: StructuralEdgeRecord[] = [];
+  const bySource = new Map<string, GraphChunkData[]>();
+  for (const chunk of chunks) {
+    const group = bySource.get(chunk.source) ?? [];
+    group.push(chunk);
+    bySource.set(chunk.source, group);
+    edges.push(["contains", FILE_NODE_PREFIX + chunk.source, chunk.id]);
+  }
+
+  const resolver = new ImportResolver([...bySource.keys()]);
+  const imports = new Map<string, Set<string>>();
+  for (const [source, group] of bySource) {
+    const targets = new Set<string>();
+    const text = group.map((chunk) => chunk.text).join("\n");
+    for (const specifier of extractImports(text, source)) {
+      resolver.resolve(specifier, source).forEach((target) => target !== source && targets.add(target));
+    }
+    imports.set(source, targets);
+    targets.forEach((target) => edges.push(["imports", FILE_NODE_PREFIX + source, FILE_NODE_PREFIX + target]));
+  }
+
+  edges.push(...buildReferenceEdges(chunks, imports));
+  return edges;
+}
+
+/**
+ * Link each chunk that defines a symbol to the chunks that mention it
+ */
+function buildReferenceEdges(chunks: GraphChunkData[], imports: Map<string, Set<string>>): StructuralEdgeRecord[] {
+  const definitions = new Map<string, GraphChunkData[]>();
+  for (const chunk of chunks) {
+    for (const name of (chunk.symbolName ?? "").split(", ")) {
+      // Members (Class.method) are left out: their short names collide too often
+      if (name.length < MIN_SYMBOL_LENGTH || name.includes(".")) {
+        continue;
+      }
+      const defining = definitions.get(name) ?? [];
+      defining.push(chunk);
+      definitions.set(name, defining);
+    }
+  }
+
+  const edges: StructuralEdgeRecord[] = [];
+  const seen = new Set<string>();
+  for (const chunk of chunks) {
+    const identifiers = new Set(chunk.text.match(IDENTIFIER_PATTERN));
+    for (const name of identifiers) {
+      const defining = definitions.get(name);
+      if (!defining || defining.length > MAX_DEFINITIONS) {
+        continue;
+      }
+
+      for (const definition of defining) {
+        const key = `${definition.id}\n${chunk.id}`;
+        if (definition.id === chunk.id || seen.has(key) || !canReference(chunk.source, definition.source, imports)) {
+          continue;
+        }
+        seen.add(key);
+        edges.push(["references", definition.id, chunk.id]);
+      }
+    }
+  }
+
+  return edges;
+}
+
+function canReference(from: string, to: string, imports: Map<string, Set<string>>): boolean {
+  if (from === to || imports.get(from)?.has(to)) {
+    return true;
+  }
+  // Go files see every declaration of their package without importing it
+  return path.extname(from) === ".go" && path.extname(to) === ".go" && path.dirname(from) === path.dirname(to);
+}
+
+/**
+ * Import specifiers in a file's text, by language (from the extension)
+ */
+function extractImports(text: string, source: string): string[] {
+  const ext = path.extname(source).toLowerCase();
+  const specifiers: string[] = [];
+
+  if (SCRIPT_EXTENSIONS.includes(ext)) {
+    for (const pattern of SCRIPT_IMPORT_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        specifiers.push(match[1]!);
+      }
+    }
+  } else if (ext === ".py") {
+    for (const match of text.matchAll(PYTHON_IMPORT_PATTERN)) {
+      // import a.b as c, d
+      for (const part of match[1]!.split(",")) {
+        const name = part.trim().split(/\s+/)[0];
+        if (name) {
+          specifiers.push(name);
+        }
+      }
+    }
+    for (const match of text.matchAll(PYTHON_FROM_IMPORT_PATTERN)) {
+      // from a import b, c: b may be a submodule or a name defined in a
+      const module = match[1]!;
+      const separator = module.endsWith(".") ? "" : ".";
+      for (const part of (match[2] ?? match[3]!).split(",")) {
+        const name = part.trim().split(/\s+/)[0];
+        if (name && name !== "*") {
+          specifiers.push(module + separator + name);
+        }
+      }
+      specifiers.push(module);
+    }
+  } else if (ext === ".go") {
+    for (const match of text.matchAll(GO_IMPORT_BLOCK_PATTERN)) {
+      for (const line of match[1]!.matchAll(/"([^"]+)"/g)) {
+        specifiers.push(line[1]!);
+      }
+    }
+    for (const match of text.matchAll(GO_IMPORT_PATTERN)) {
+      specifiers.push(match[1]!);
+    }
+  }
+
+  return specifiers;
+}
+
+/**
+ * Maps import specifiers to indexed files
+ */
+class ImportResolver {
+  private files: Set<string>;
+  private pythonModules = new Map<string, string[]>(); // Dotted module path suffix → files
+  private goPackages = new Map<string, string[]>(); // Directory path suffix → .go files in it
+
+  constructor(files: string[]) {
+    this.files = new Set(files);
+
+    for (const file of files) {
+      const ext = path.extname(file);
+      if (ext === ".py") {
+        const withoutExt = file.slice(0, -ext.length);
+        const modulePath = path.basename(withoutExt) === "__init__" ? path.dirname(withoutExt) : withoutExt;
+        for (const suffix of pathSuffixes(modulePath)) {
+          addToList(this.pythonModules, suffix.join("."), file);
+        }
+      } else if (ext === ".go" && !file.endsWith("_test.go")) {
+        for (const suffix of pathSuffixes(path.dirname(file))) {
+          addToList(this.goPackages, suffix.join("/"), file);
+        }
+      }
+    }
+  }
+
+  public resolve(specifier: string, from: string): string[] {
+    const ext = path.extname(from).toLowerCase();
+    if (ext === ".py") {
+      return this.resolvePython(specifier, from);
+    }
+    if (ext === ".go") {
+      return this.resolveGo(specifier);
+    }
+    return this.resolveScript(specifier, from);
+  }
+
+  /**
+   * Relative imports only; bare specifiers are packages or path aliases
+   */
+  private resolveScript(specifier: string, from: string): string[] {
+    if (!specifier.startsWith(".")) {
+      return [];
+    }
+
+    const base = path.join(path.dirname(from), specifier);
+    const ext = path.extname(base);
+    const candidates = [
+      base,
+      ...(COMPILED_EXTENSIONS[ext] ?? []).map((compiled) => base.slice(0, -ext.length) + compiled),
+      ...SCRIPT_EXTENSIONS.map((extension) => base + extension),
+      ...SCRIPT_EXTENSIONS.map((extension) => path.join(base, "index" + extension)),
+    ];
+    const found = candidates.find((candidate) => this.files.has(candidate));
+    return found ? [found] : [];
+  }
+
+  /**
+   * Relative modules (from .x import y) resolve against the importing package;
+   * absolute ones match indexed modules whose path ends with them, preferring
+   * the one closest to the importing file
+   */
+  private resolvePython(specifier: string, from: string): string[] {
+    const dots = specifier.length - specifier.replace(/^\.+/, "").length;
+    if (dots > 0) {
+      let dir = path.dirname(from);
+      for (let i = 1; i < dots; i++) {
+        dir = path.dirname(dir);
+      }
+      const rest = specifier.slice(dots).split(".").filter(Boolean);
+      const base = path.join(dir, ...rest);
+      return [base + ".py", path.join(base, "__init__.py")].filter((candidate) => this.files.has(candidate)).slice(0, 1);
+    }
+
+    const matches = this.pythonModules.get(specifier) ?? [];
+    return matches.length > 1 ? [closest(matches, from)] : matches;
+  }
+
+  /**
+   * Match the package directory by the longest suffix of the import path (at
+   * least two segments, so standard library packages like "fmt" don't match)
+   */
+  private resolveGo(specifier: string): string[] {
+    const segments = specifier.split("/");
+    for (let start = 0; start <= segments.length - 2; start++) {
+      const files = this.goPackages.get(segments.slice(start).join("/"));
+      if (files) {
+        return files;
+      }
+    }
+    return [];
+  }
+}
+
+/**
+ * Trailing path segments: a/b/c → [c], [b, c], [a, b, c]
+ */
+function pathSuffixes(filePath: string): string[][] {
+  const segments = filePath.split(/[\\/]/).filter(Boolean);
+  return segments.map((_, i) => segments.slice(segments.length - 1 - i));
+}
+
+/**
+ * The file sharing the longest directory prefix with another file
+ */
+function closest(files: string[], to: string): string {
+  const shared = (file: string) => {
+    const a = file.split(/[\\/]/);
+    const b = to.split(/[\\/]/);
+    let i = 0;
+    while (i < a.length - 1 && i < b.length - 1 && a[i] === b[i]) {
+      i++;
+    }
+    return i;
+  };
+  return files.reduce((best, file) => (shared(file) > shared(best) ? file : best));
+}
+
+function addToList(map: Map<string, string[]>, key: string, value: string): void {
+  const list = map.get(key) ?? [];
+  list.push(value);
+  map.set(key, list);
+}
@@ -0,0 +1,242 @@
+const MAX_LEVELS = 20;
+const MAX_PASSES = 50; // Local moving passes per level
+const MIN_GAIN = 1e-12; // Moves gaining less are ties and are skipped, so passes settle
+
+/**
+ * Undirected weighted graph in compressed sparse row form
+ * Every edge is stored in both directions; self-loops (from aggregation) are kept apart.
+ */
+export interface WeightedGraph {
+  nodeCount: number;
+  offsets: Int32Array; // Links of node i are at offsets[i] .. offsets[i + 1] - 1
+  targets: Int32Array;
+  weights: Float64Array;
+  loops: Float64Array; // Self-loop weight per node
+}
+
+/**
+ * Build a graph from an edge stream, read twice: once to size the arrays,
+ * once to fill them, so the edges are never held as objects
+ * @param edges - Returns a fresh iterable of [node, node, weight] on each call
+ */
+export function buildWeightedGraph(
+  nodeCount: number,
+  edges: () => Iterable<[source: number, target: number, weight: number]>
+): WeightedGraph {
+  const offsets = new Int32Array(nodeCount + 1);
+  for (const [source, target] of edges()) {
+    if (source !== target) {
+      offsets[source + 1]!++;
+      offsets[target + 1]!++;
+    }
+  }
+  for (let i = 0; i < nodeCount; i++) {
+    offsets[i + 1]! += offsets[i]!;
+  }
+
+  const targets = new Int32Array(offsets[nodeCount]!);
+  const weights = new Float64Array(offsets[nodeCount]!);
+  const cursor = offsets.slice(0, nodeCount);
+  for (const [source, target, weight] of edges()) {
+    if (source !== target) {
+      targets[cursor[source]!] = target;
+      weights[cursor[source]!++] = weight;
+      targets[cursor[target]!] = source;
+      weights[cursor[target]!++] = weight;
+    }
+  }
+
+  return { nodeCount, offsets, targets, weights, loops: new Float64Array(nodeCount) };
+}
+
+/**
+ * Louvain community detection (Blondel et al.)
+ *
+ * Each level moves nodes to the neighbouring community with the best
+ * modularity gain until no move helps, then merges every community into one
+ * node and repeats on the smaller graph. Nodes are visited in order, so the
+ * result is reproducible.
+ * @param resolution - Above 1 favours more, smaller communities
+ * @returns Community of each node (numbered from 0) and the partition's modularity
+ */
+export function detectCommunities(
+  graph: WeightedGraph,
+  resolution: number = 1
+): { communities: Int32Array; modularity: number } {
+  const membership = new Int32Array(graph.nodeCount);
+  membership.forEach((_, i) => (membership[i] = i));
+
+  let current = graph;
+  for (let level = 0; level < MAX_LEVELS; level++) {
+    const communities = moveNodes(current, resolution);
+    if (!communities) {
+      break;
+    }
+
+    const { numbering, count } = renumber(communities);
+    for (let i = 0; i < membership.length; i++) {
+      membership[i] = numbering[membership[i]!]!;
+    }
+    if (count === current.nodeCount) {
+      break;
+    }
+    current = aggregate(current, numbering, count);
+  }
+
+  return { communities: membership, modularity: modularity(graph, membership, resolution) };
+}
+
+/**
+ * One level of local moving
+ * @returns Community of each node, or null if no node moved
+ */
+function moveNodes(graph: WeightedGraph, resolution: number): Int32Array | null {
+  const { nodeCount, offsets, targets, weights } = graph;
+  const strengths = nodeStrengths(graph);
+  const totalWeight = strengths.reduce((sum, strength) => sum + strength, 0); // Twice the edge weight
+  if (totalWeight === 0) {
+    return null;
+  }
+
+  const community = new Int32Array(nodeCount);
+  community.forEach((_, i) => (community[i] = i));
+  const totals = Float64Array.from(strengths); // Strength of each community
+  const linkWeights = new Float64Array(nodeCount).fill(-1); // Node's weight to each touched community
+  const touched: number[] = [];
+  let moved = false;
+
+  for (let pass = 0, improved = true; improved && pass < MAX_PASSES; pass++) {
+    improved = false;
+    for (let node = 0; node < nodeCount; node++) {
+      const own = community[node]!;
+      const strength = strengths[node]!;
+
+      for (let e = offsets[node]!; e < offsets[node + 1]!; e++) {
+        const neighbour = community[targets[e]!]!;
+        if (linkWeights[neighbour]! < 0) {
+          linkWeights[neighbour] = 0;
+          touched.push(neighbour);
+        }
+        linkWeights[neighbour]! += weights[e]!;
+      }
+
+      // Gain of joining c, up to terms that are the same for every c
+      totals[own]! -= strength;
+      const gain = (c: number) => Math.max(linkWeights[c]!, 0) - (resolution * totals[c]! * strength) / totalWeight;
+      let best = own;
+      let bestGain = gain(own);
+      for (const c of touched) {
+        const candidate = gain(c);
+        if (candidate > bestGain + MIN_GAIN) {
+          best = c;
+          bestGain = candidate;
+        }
+      }
+      totals[best]! += strength;
+      community[node] = best;
+
+      if (best !== own) {
+        improved = true;
+        moved = true;
+      }
+      touched.forEach((c) => (linkWeights[c] = -1));
+      touched.length = 0;
+    }
+  }
+
+  return moved ? community : null;
+}
+
+/**
+ * Merge each community into one node; edges inside a community become its self-loop
+ */
+function aggregate(graph: WeightedGraph, numbering: Int32Array, count: number): WeightedGraph {
+  const loops = new Float64Array(count);
+  const links: Array<Map<number, number>> = Array.from({ length: count }, () => new Map());
+
+  for (let node = 0; node < graph.nodeCount; node++) {
+    const c = numbering[node]!;
+    loops[c]! += graph.loops[node]!;
+    for (let e = graph.offsets[node]!; e < graph.offsets[node + 1]!; e++) {
+      const d = numbering[graph.targets[e]!]!;
+      if (c === d) {
+        loops[c]! += graph.weights[e]! / 2; // Seen from both ends
+      } else {
+        links[c]!.set(d, (links[c]!.get(d) ?? 0) + graph.weights[e]!);
+      }
+    }
+  }
+
+  const offsets = new Int32Array(count + 1);
+  links.forEach((map, c) => (offsets[c + 1] = offsets[c]! + map.size));
+  const targets = new Int32Array(offsets[count]!);
+  const weights = new Float64Array(offsets[count]!);
+  links.forEach((map, c) => {
+    let e = offsets[c]!;
+    for (const [d, weight] of map) {
+      targets[e] = d;
+      weights[e++] = weight;
+    }
+  });
+
+  return { nodeCount: count, offsets, targets, weights, loops };
+}
+
+/**
+ * Sum of each node's link weights, self-loops counting twice
+ */
+function nodeStrengths(graph: WeightedGraph): Float64Array {
+  const strengths = new Float64Array(graph.nodeCount);
+  for (let node = 0; node < graph.nodeCount; node++) {
+    let strength = graph.loops[node]! * 2;
+    for (let e = graph.offsets[node]!; e < graph.offsets[node + 1]!; e++) {
+      strength += graph.weights[e]!;
+    }
+    strengths[node] = strength;
+  }
+  return strengths;
+}
+
+/**
+ * Number communities 0..count - 1 in order of first appearance
+ */
+function renumber(communities: Int32Array): { numbering: Int32Array; count: number } {
+  const ids = new Int32Array(communities.length).fill(-1);
+  const numbering = new Int32Array(communities.length);
+  let count = 0;
+  communities.forEach((c, node) => {
+    if (ids[c] === -1) {
+      ids[c] = count++;
+    }
+    numbering[node] = ids[c]!;
+  });
+  return { numbering, count };
+}
+
+function modularity(graph: WeightedGraph, communities: Int32Array, resolution: number): number {
+  const strengths = nodeStrengths(graph);
+  const totalWeight = strengths.reduce((sum, strength) => sum + strength, 0);
+  if (totalWeight === 0) {
+    return 0;
+  }
+
+  const internal = new Map<number, number>();
+  const totals = new Map<number, number>();
+  for (let node = 0; node < graph.nodeCount; node++) {
+    const c = communities[node]!;
+    let weight = graph.loops[node]! * 2;
+    for (let e = graph.offsets[node]!; e < graph.offsets[node + 1]!; e++) {
+      if (communities[graph.targets[e]!] === c) {
+        weight += graph.weights[e]!;
+      }
+    }
+    internal.set(c, (internal.get(c) ?? 0) + weight);
+    totals.set(c, (totals.get(c) ?? 0) + strengths[node]!);
+  }
+
+  let q = 0;
+  for (const [c, weight] of internal) {
+    q += weight / totalWeight - resolution * (totals.get(c)! / totalWeight) ** 2;
+  }
+  return q;
+}
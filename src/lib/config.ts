@@ -0,0 +1,235 @@
+import * as fs from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import type {
+  ChunkingStrategy,
+  EmbedderConfig,
+  EmbeddingProviderName,
+  GraphEdgeMethod,
+  LoadedConfig,
+} from "../types/index.js";
+import { PROVIDER_NAMES } from "./embedding-provider.js";
+import { EDGE_METHODS } from "./edge-builder.js";
+
+// Searched in order in the current directory when --config is not given
+export const CONFIG_FILE_NAMES = ["embedder.config.json", "embedder.config.js", ".embedderrc"];
+
+type FieldType = "string" | "number" | "boolean" | "string[]" | "object";
+
+// Every EmbedderOptions key with the type its value must have
+const CONFIG_FIELDS: Record<keyof EmbedderConfig, FieldType> = {
+  dir: "string",
+  output: "string",
+  provider: "string",
+  baseUrl: "string",
+  model: "string",
+  apiKeyEnv: "string",
+  tableName: "string",
+  dimension: "number",
+  ignore: "string[]",
+  batchSize: "number",
+  batchTokens: "number",
+  concurrency: "number",
+  enableGraph: "boolean",
+  graphThreshold: "number",
+  graphTopK: "number",
+  graphEdges: "string",
+  graphEf: "number",
+  graphMemory: "number",
+  mode: "string",
+  fromCommit: "string",
+  includeWorkingTree: "boolean",
+  chunking: "object",
+  reindexOnChange: "boolean",
+  maxRetries: "number",
+  retryDelay: "number",
+  requestTimeout: "number",
+  requestsPerSecond: "number",
+  tokensPerMinute: "number",
+  circuitBreakerThreshold: "number",
+};
+
+const VALID_MODES = ["full", "diff", "intelligent"];
+const VALID_STRATEGIES: ChunkingStrategy[] = ["code", "recursive", "semantic-markdown", "html", "json"];
+const POSITIVE_INTEGER_FIELDS = [
+  "dimension",
+  "batchSize",
+  "batchTokens",
+  "concurrency",
+  "graphTopK",
+  "graphEf",
+  "graphMemory",
+  "retryDelay",
+  "requestTimeout",
+  "tokensPerMinute",
+  "circuitBreakerThreshold",
+] as const;
+const CHUNKING_NUMBER_FIELDS = ["maxSize", "overlap", "joinThreshold"];
+
+/**
+ * Load the project config file
+ * @param explicitPath - Path from --config; must exist when given
+ * @param cwd - Directory searched for CONFIG_FILE_NAMES
+ * @returns The validated config, or null if no config file was found
+ */
+export async function loadConfig(
+  explicitPath?: string,
+  cwd: string = process.cwd()
+): Promise<LoadedConfig | null> {
+  let configPath: string | undefined;
+
+  if (explicitPath) {
+    configPath = path.resolve(cwd, explicitPath);
+    if (!fs.existsSync(configPath)) {
+      throw new Error(`Config file not found: ${configPath}`);
+    }
+  } else {
+    configPath = CONFIG_FILE_NAMES
+      .map((name) => path.join(cwd, name))
+      .find((candidate) => fs.existsSync(candidate));
+  }
+
+  if (!configPath) {
+    return null;
+  }
+
+  const raw = await readConfigFile(configPath);
+  return {
+    path: configPath,
+    config: validateConfig(raw, configPath),
+  };
+}
+
+async function readConfigFile(configPath: string): Promise<unknown> {
+  const ext = path.extname(configPath).toLowerCase();
+
+  if (ext === ".js" || ext === ".mjs") {
+    const module = await import(pathToFileURL(configPath).href);
+    return module.default;
+  }
+
+  // .json and .embedderrc are both JSON
+  try {
+    return JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to parse config file ${configPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Check a parsed config against the EmbedderOptions fields
+ * Unknown keys are rejected so typos don't silently fall back to defaults.
+ */
+export function validateConfig(raw: unknown, source: string): EmbedderConfig {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid config in ${source}: expected an object`);
+  }
+
+  const config = raw as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(config)) {
+    const expected = CONFIG_FIELDS[key as keyof EmbedderConfig];
+    if (!expected) {
+      throw new Error(
+        `Invalid config in ${source}: unknown key '${key}'\n\n` +
+        `Suggestions:\n` +
+        `  • Valid keys: ${Object.keys(CONFIG_FIELDS).join(", ")}`
+      );
+    }
+
+    if (!hasType(value, expected)) {
+      throw new Error(`Invalid config in ${source}: '${key}' must be ${describeType(expected)}`);
+    }
+  }
+
+  if (config.mode !== undefined && !VALID_MODES.includes(config.mode as string)) {
+    throw new Error(`Invalid config in ${source}: 'mode' must be one of ${VALID_MODES.join(", ")}`);
+  }
+
+  if (config.graphEdges !== undefined && !EDGE_METHODS.includes(config.graphEdges as GraphEdgeMethod)) {
+    throw new Error(`Invalid config in ${source}: 'graphEdges' must be one of ${EDGE_METHODS.join(", ")}`);
+  }
+
+  if (config.provider !== undefined && !PROVIDER_NAMES.includes(config.provider as EmbeddingProviderName)) {
+    throw new Error(`Invalid config in ${source}: 'provider' must be one of ${PROVIDER_NAMES.join(", ")}`);
+  }
+
+  for (const key of POSITIVE_INTEGER_FIELDS) {
+    const value = config[key] as number | undefined;
+    if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+      throw new Error(`Invalid config in ${source}: '${key}' must be a positive integer`);
+    }
+  }
+
+  if (config.maxRetries !== undefined && (!Number.isInteger(config.maxRetries) || (config.maxRetries as number) < 0)) {
+    throw new Error(`Invalid config in ${source}: 'maxRetries' must be a non-negative integer`);
+  }
+
+  if (config.requestsPerSecond !== undefined && (config.requestsPerSecond as number) <= 0) {
+    throw new Error(`Invalid config in ${source}: 'requestsPerSecond' must be a positive number`);
+  }
+
+  if (config.chunking !== undefined) {
+    validateChunking(config.chunking as Record<string, unknown>, source);
+  }
+
+  return config as EmbedderConfig;
+}
+
+function validateChunking(chunking: Record<string, unknown>, source: string): void {
+  for (const [ext, options] of Object.entries(chunking)) {
+    if (!ext.startsWith(".")) {
+      throw new Error(`Invalid config in ${source}: chunking key '${ext}' must be a file extension (e.g., ".md")`);
+    }
+
+    if (!hasType(options, "object")) {
+      throw new Error(`Invalid config in ${source}: 'chunking.${ext}' must be an object`);
+    }
+
+    for (const [key, value] of Object.entries(options as Record<string, unknown>)) {
+      if (key === "strategy") {
+        if (!VALID_STRATEGIES.includes(value as ChunkingStrategy)) {
+          throw new Error(
+            `Invalid config in ${source}: 'chunking.${ext}.strategy' must be one of ${VALID_STRATEGIES.join(", ")}`
+          );
+        }
+      } else if (CHUNKING_NUMBER_FIELDS.includes(key)) {
+        if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+          throw new Error(`Invalid config in ${source}: 'chunking.${ext}.${key}' must be a non-negative integer`);
+        }
+      } else {
+        throw new Error(
+          `Invalid config in ${source}: unknown key 'chunking.${ext}.${key}'\n\n` +
+          `Suggestions:\n` +
+          `  • Valid keys: strategy, ${CHUNKING_NUMBER_FIELDS.join(", ")}`
+        );
+      }
+    }
+  }
+}
+
+function hasType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case "string[]":
+      return Array.isArray(value) && value.every((item) => typeof item === "string");
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "number":
+      return typeof value === "number" && !isNaN(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(type: FieldType): string {
+  switch (type) {
+    case "string[]":
+      return "an array of strings";
+    case "object":
+      return "an object";
+    default:
+      return `a ${type}`;
+  }
+}
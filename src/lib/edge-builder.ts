@@ -0,0 +1,165 @@
+import type { GraphEdgeMethod, GraphEdgeOptions } from "../types/index.js";
+import { HnswIndex } from "./hnsw.js";
+import { VectorSet } from "./vector-set.js";
+
+export const EDGE_METHODS: GraphEdgeMethod[] = ["auto", "exact", "ann"];
+
+export const DEFAULT_GRAPH_EF = 100;
+export const DEFAULT_GRAPH_MEMORY_MB = 1024;
+const EXACT_MAX_COMPARISONS = 50_000_000; // Above this, auto switches to ANN
+const ANN_NEIGHBOURS = 32; // Edges per new chunk in ANN mode without --graph-top-k
+const HNSW_M = 16;
+
+/**
+ * Similarity edge between two graph store slots, one record per undirected pair
+ */
+export type EdgeRecord = [source: number, target: number, similarity: number];
+
+/**
+ * Pick the edge construction method and vector precision for a build
+ * Exact comparison is used while new × live chunks stays small (e.g., a diff
+ * run on a big graph); float32 vectors are used if they fit the memory budget,
+ * int8 otherwise.
+ * @throws When even int8 vectors don't fit the budget
+ */
+export function planEdges(
+  liveCount: number,
+  newCount: number,
+  dimension: number,
+  options: GraphEdgeOptions
+): { method: 'exact' | 'ann'; quantized: boolean } {
+  const method = options.method && options.method !== "auto"
+    ? options.method
+    : newCount * liveCount <= EXACT_MAX_COMPARISONS ? "exact" : "ann";
+
+  const budgetMb = options.memoryMb ?? DEFAULT_GRAPH_MEMORY_MB;
+  const indexBytes = method === "ann" ? HnswIndex.estimateBytes(liveCount, HNSW_M) : 0;
+  for (const quantized of [false, true]) {
+    if ((VectorSet.estimateBytes(liveCount, dimension, quantized) + indexBytes) / (1024 * 1024) <= budgetMb) {
+      return { method, quantized };
+    }
+  }
+
+  const neededMb = Math.ceil((VectorSet.estimateBytes(liveCount, dimension, true) + indexBytes) / (1024 * 1024));
+  throw new Error(
+    `Building graph edges for ${liveCount} chunks needs about ${neededMb} MB, over the ${budgetMb} MB budget\n\n` +
+    `Suggestions:\n` +
+    `  • Raise --graph-memory to at least ${neededMb}\n` +
+    `  • Exclude files from the index with --ignore`
+  );
+}
+
+/**
+ * Find the similarity edges of every vector from position firstNew on
+ * Pairs of two older vectors are skipped, they were linked by an earlier build.
+ * @param topK - Keep only each new vector's k most similar vectors (ANN mode defaults to 32)
+ */
+export function buildEdges(
+  vectors: VectorSet,
+  firstNew: number,
+  threshold: number,
+  topK: number | undefined,
+  method: 'exact' | 'ann',
+  options: GraphEdgeOptions
+): EdgeRecord[] {
+  if (firstNew < 0 || firstNew >= vectors.size) {
+    return [];
+  }
+
+  return method === "ann"
+    ? buildAnnEdges(vectors, firstNew, threshold, topK ?? ANN_NEIGHBOURS, options)
+    : buildExactEdges(vectors, firstNew, threshold, topK, options);
+}
+
+/**
+ * Compare every new vector with every vector
+ */
+function buildExactEdges(
+  vectors: VectorSet,
+  firstNew: number,
+  threshold: number,
+  topK: number | undefined,
+  options: GraphEdgeOptions
+): EdgeRecord[] {
+  const pairs = new PairCollector(vectors, firstNew, !!topK);
+  const total = vectors.size - firstNew;
+
+  for (let i = firstNew; i < vectors.size; i++) {
+    const candidates: Array<[number, number]> = [];
+    for (let j = 0; j < vectors.size; j++) {
+      // Without a cap a pair of new vectors is found from both sides, keep the first
+      if (j === i || (!topK && j >= firstNew && j < i)) {
+        continue;
+      }
+      const similarity = vectors.similarity(i, j);
+      if (similarity > threshold) {
+        candidates.push([j, similarity]);
+      }
+    }
+
+    pairs.add(i, topK ? candidates.sort((a, b) => b[1] - a[1]).slice(0, topK) : candidates);
+    options.onProgress?.(i - firstNew + 1, total);
+  }
+
+  return pairs.edges;
+}
+
+/**
+ * Index every vector in an HNSW graph, then look up each new vector's neighbours
+ * Progress counts insertions and lookups together.
+ */
+function buildAnnEdges(
+  vectors: VectorSet,
+  firstNew: number,
+  threshold: number,
+  neighbours: number,
+  options: GraphEdgeOptions
+): EdgeRecord[] {
+  const ef = options.ef ?? DEFAULT_GRAPH_EF;
+  const index = new HnswIndex(vectors, { m: HNSW_M, efConstruction: ef });
+  const total = vectors.size * 2 - firstNew;
+
+  for (let i = 0; i < vectors.size; i++) {
+    index.insert(i);
+    options.onProgress?.(i + 1, total);
+  }
+
+  const pairs = new PairCollector(vectors, firstNew, true);
+  for (let i = firstNew; i < vectors.size; i++) {
+    pairs.add(i, index.neighbours(i, neighbours, ef).filter(([, similarity]) => similarity > threshold));
+    options.onProgress?.(vectors.size + i - firstNew + 1, total);
+  }
+
+  return pairs.edges;
+}
+
+/**
+ * Turns per-vector neighbour lists into slot edges, dropping a pair of new
+ * vectors the second time it is found
+ */
+class PairCollector {
+  public readonly edges: EdgeRecord[] = [];
+  private seen = new Set<number>();
+  private vectors: VectorSet;
+  private firstNew: number;
+  private dedupe: boolean;
+
+  constructor(vectors: VectorSet, firstNew: number, dedupe: boolean) {
+    this.vectors = vectors;
+    this.firstNew = firstNew;
+    this.dedupe = dedupe;
+  }
+
+  public add(i: number, neighbours: Array<[number, number]>): void {
+    for (const [j, similarity] of neighbours) {
+      if (this.dedupe && j >= this.firstNew) {
+        const key = Math.min(i, j) * this.vectors.size + Math.max(i, j);
+        if (this.seen.has(key)) {
+          continue;
+        }
+        this.seen.add(key);
+      }
+      this.edges.push([this.vectors.slots[i]!, this.vectors.slots[j]!, similarity]);
+    }
+  }
+}
@@ -1,26 +1,85 @@
 import { MDocument } from "@mastra/rag";
-import { embedMany } from "ai";
-import { createOpenAI } from "@ai-sdk/openai";
 import { LanceVectorStore } from "@mastra/lance";
-import type { EmbedderOptions, ProcessingStats, GraphChunkData } from "../types/index.js";
+import type {
+  EmbedderOptions,
+  EmbeddingProvider,
+  ProcessingStats,
+  GraphChunkData,
+  GraphEdgeOptions,
+  ChunkMetadata,
+  ChunkingOptions,
+  ChunkingStrategy,
+  FileType,
+  GitDiffResult,
+  IndexFingerprint,
+  IndexPlan,
+  PlannedFile,
+} from "../types/index.js";
 import { FileDiscovery } from "./file-discovery.js";
 import { StateManager } from "./state-manager.js";
 import { GraphStore } from "./graph-store.js";
-import { isGitRepository, getCurrentCommitHash, getChangedFiles, hasUncommittedChanges, getUncommittedChangeCount } from "./git-diff.js";
+import { CodeChunker } from "./code-chunker.js";
+import { locateChunks } from "./chunk-locator.js";
+import { detectLanguage } from "./language.js";
+import { EmbeddingClient, estimateTokens } from "./embedding-client.js";
+import { createEmbeddingProvider } from "./embedding-provider.js";
+import { EmbeddingBatcher } from "./embedding-batcher.js";
+import {
+  isGitRepository,
+  getCurrentCommitHash,
+  getChangedFiles,
+  getWorkingTreeChanges,
+  mergeDiffResults,
+  getDiffPaths,
+  hasUncommittedChanges,
+  getUncommittedChangeCount,
+} from "./git-diff.js";
 import cliProgress from "cli-progress";
 import chalk from "chalk";
 import * as path from "path";
 import * as fs from "fs";
 import * as crypto from "crypto";
 
+// Metadata columns every row must have; tables created by older versions lack some of them
+const REQUIRED_COLUMNS = [
+  "metadata_text",
+  "metadata_source",
+  "metadata_chunkIndex",
+  "metadata_startLine",
+  "metadata_endLine",
+  "metadata_startByte",
+  "metadata_endByte",
+  "metadata_fileType",
+  "metadata_language",
+  "metadata_contentHash",
+  "metadata_commitHash",
+  "metadata_symbolName",
+  "metadata_symbolKind",
+];
+
+// A chunked file waiting for its embeddings
+interface PreparedFile {
+  filePath: string;
+  content: string;
+  metadata: ChunkMetadata[];
+}
+
+// Bump when default chunking changes, so existing indexes are flagged as incompatible
+const CHUNKING_VERSION = 1;
+
 export class Embedder {
   private options: EmbedderOptions;
   private fileDiscovery: FileDiscovery;
+  private codeChunkers: Map<string, CodeChunker> = new Map(); // Keyed by "maxSize:overlap"
   private stateManager: StateManager;
   private graphStore: GraphStore | null = null;
   private vectorStore: LanceVectorStore | null = null;
-  private openaiProvider: ReturnType<typeof createOpenAI>;
+  private provider: EmbeddingProvider;
+  private embeddingClient: EmbeddingClient;
   private tableExists: boolean = false;
+  private commitHash: string = ""; // HEAD at the start of the run, stored with every chunk
+  private dimension: number = 0; // From --dimensions or probed from the model in run()
+  private startedAt: number = Date.now(); // Start of the current run, for throughput
   private stats: ProcessingStats = {
     filesProcessed: 0,
     filesSkipped: 0,
@@ -35,7 +94,9 @@ export class Embedder {
   constructor(options: EmbedderOptions) {
     this.options = {
       ...options,
-      batchSize: options.batchSize || 10,
+      batchSize: options.batchSize || 32,
+      batchTokens: options.batchTokens || 8192,
+      concurrency: options.concurrency || 10,
       enableGraph: options.enableGraph ?? false,
       graphThreshold: options.graphThreshold ?? 0.7,
       mode: options.mode || 'full',
@@ -47,23 +108,29 @@ export class Embedder {
     this.fileDiscovery = new FileDiscovery(options.dir, options.ignore);
     this.stateManager = new StateManager(options.output);
     
-    // Initialize GraphStore if GraphRAG is enabled
+    // Initialize GraphStore if GraphRAG is enabled (configured once the dimension is known)
     if (this.options.enableGraph) {
       this.graphStore = new GraphStore(options.output);
-      this.graphStore.setConfig(
-        this.options.dimension,
-        this.options.graphThreshold!
-      );
     }
     
-    // Initialize OpenAI provider once
-    this.openaiProvider = createOpenAI({
-      apiKey: "not-needed", // LM Studio doesn't require an API key
-      baseURL: options.baseUrl,
+    // One client for the whole run, so rate limits and the circuit breaker
+    // cover every file processed concurrently
+    this.provider = createEmbeddingProvider(options);
+    this.embeddingClient = new EmbeddingClient(this.provider, {
+      ...(options.maxRetries !== undefined && { maxRetries: options.maxRetries }),
+      ...(options.retryDelay !== undefined && { retryDelay: options.retryDelay }),
+      ...(options.requestTimeout !== undefined && { requestTimeout: options.requestTimeout }),
+      ...(options.requestsPerSecond !== undefined && { requestsPerSecond: options.requestsPerSecond }),
+      ...(options.tokensPerMinute !== undefined && { tokensPerMinute: options.tokensPerMinute }),
+      ...(options.circuitBreakerThreshold !== undefined && { circuitBreakerThreshold: options.circuitBreakerThreshold }),
     });
   }
 
   private async initVectorStore(): Promise<void> {
+    if (this.vectorStore) {
+      return;
+    }
+
     // Ensure output directory exists
     if (!fs.existsSync(this.options.output)) {
       fs.mkdirSync(this.options.output, { recursive: true });
@@ -87,12 +154,14 @@ export class Embedder {
       return;
     }
 
+    await this.checkTableSchema();
+
     // Table exists, ensure it has an index for better query performance
     try {
       await this.vectorStore.createIndex({
         tableName: this.options.tableName,
         indexName: "vector", // indexName is the column name in LanceDB
-        dimension: this.options.dimension,
+        dimension: this.dimension,
       });
     } catch (error) {
       // Index might already exist or other non-critical error
@@ -100,7 +169,27 @@ export class Embedder {
     }
   }
 
-  private getFileType(filePath: string): "markdown" | "html" | "json" | "text" {
+  /**
+   * Fail early if the existing table was written with an older row schema,
+   * since upserts with new metadata columns would be rejected by LanceDB
+   */
+  private async checkTableSchema(): Promise<void> {
+    const schema = await this.vectorStore!.getTableSchema(this.options.tableName);
+    const columns = new Set<string>(schema.fields.map((field: { name: string }) => field.name));
+    const missing = REQUIRED_COLUMNS.filter((column) => !columns.has(column));
+
+    if (missing.length > 0) {
+      throw new Error(
+        `Table '${this.options.tableName}' was created by an older version of embedder\n` +
+        `Missing columns: ${missing.join(", ")}\n\n` +
+        `Suggestions:\n` +
+        `  • Delete ${this.options.output} and re-index\n` +
+        `  • Use a new table with --table-name`
+      );
+    }
+  }
+
+  private getFileType(filePath: string): FileType {
     const ext = path.extname(filePath).toLowerCase();
     
     // Markdown files
@@ -117,18 +206,62 @@ export class Embedder {
     if (ext === ".json") {
       return "json";
     }
+
+    // Source files with a syntax-aware chunker
+    if (CodeChunker.getLanguage(filePath)) {
+      return "code";
+    }
     
     // Everything else as text
     return "text";
   }
 
+  private getCodeChunker(maxSize?: number, overlap?: number): CodeChunker {
+    const key = `${maxSize ?? ""}:${overlap ?? ""}`;
+    let chunker = this.codeChunkers.get(key);
+    if (!chunker) {
+      chunker = new CodeChunker(maxSize, overlap);
+      this.codeChunkers.set(key, chunker);
+    }
+    return chunker;
+  }
+
+  private getDefaultStrategy(fileType: FileType): ChunkingStrategy {
+    switch (fileType) {
+      case "markdown":
+        return "semantic-markdown";
+      case "html":
+        return "html";
+      case "json":
+        return "json";
+      case "code":
+        return "code";
+      default:
+        return "recursive";
+    }
+  }
+
   private async chunkDocument(content: string, filePath: string): Promise<any[]> {
     const fileType = this.getFileType(filePath);
+    const overrides: ChunkingOptions = this.options.chunking?.[path.extname(filePath).toLowerCase()] ?? {};
+    let strategy = overrides.strategy ?? this.getDefaultStrategy(fileType);
     let doc: MDocument;
+
+    // Split code along declaration boundaries, falling back to recursive splitting
+    if (strategy === "code") {
+      try {
+        return await this.getCodeChunker(overrides.maxSize, overrides.overlap).chunk(content, filePath);
+      } catch (error) {
+        this.stats.warnings.push(
+          `Syntax-aware chunking failed for ${filePath}, using recursive: ${error instanceof Error ? error.message : String(error)}`
+        );
+        strategy = "recursive";
+      }
+    }
     
-    // Create document based on file type
-    switch (fileType) {
-      case "markdown":
+    // Create document based on the strategy
+    switch (strategy) {
+      case "semantic-markdown":
         doc = MDocument.fromMarkdown(content, { source: filePath });
         break;
       case "html":
@@ -142,12 +275,12 @@ export class Embedder {
     }
 
     // Use appropriate chunking strategy based on file type
-    switch (fileType) {
-      case "markdown":
+    switch (strategy) {
+      case "semantic-markdown":
         // Use semantic-markdown for better understanding of markdown structure
         return await doc.chunk({
           strategy: "semantic-markdown",
-          joinThreshold: 500,
+          joinThreshold: overrides.joinThreshold ?? 500,
         });
       
       case "html":
@@ -165,85 +298,81 @@ export class Embedder {
         // Use JSON strategy
         return await doc.chunk({
           strategy: "json",
-          maxSize: 512,
+          maxSize: overrides.maxSize ?? 512,
         });
       
       default:
         // Use recursive for text files (code, etc.)
         return await doc.chunk({
           strategy: "recursive",
-          maxSize: 512,
-          overlap: 50,
+          maxSize: overrides.maxSize ?? 512,
+          overlap: overrides.overlap ?? 50,
         });
     }
   }
 
-  private async processFile(
+  /**
+   * Read and chunk a file for embedding
+   * @returns null if the file is unchanged or can't be chunked (already counted in stats)
+   */
+  private async prepareFile(
     filePath: string,
-    progressBar: cliProgress.SingleBar
-  ): Promise<void> {
-    // Intercept console output during processing to avoid interfering with progress bar
-    const originalWarn = console.warn;
-    const originalLog = console.log;
-    const capturedWarnings: string[] = [];
-    console.warn = (...args: any[]) => {
-      capturedWarnings.push(args.join(' '));
-    };
-    console.log = (...args: any[]) => {
-      // Also intercept console.log to catch chunking warnings
-      const msg = args.join(' ');
-      if (msg.includes('chunk of size')) {
-        capturedWarnings.push(msg);
-      }
-    };
-
+    progressBar?: cliProgress.SingleBar
+  ): Promise<PreparedFile | null> {
+    // File read errors should be logged as warnings and continue
+    let content: string;
     try {
-      // File read errors should be logged as warnings and continue
-      let content: string;
-      try {
-        content = this.fileDiscovery.readFileContent(filePath);
-      } catch (error) {
-        this.stats.warnings.push(
-          `Cannot read ${filePath}: ${error instanceof Error ? error.message : String(error)}`
-        );
-        progressBar.increment();
-        return;
-      }
+      content = this.fileDiscovery.readFileContent(filePath);
+    } catch (error) {
+      this.stats.warnings.push(
+        `Cannot read ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      progressBar?.increment();
+      return null;
+    }
 
-      // Check if file needs processing
-      if (!this.stateManager.needsProcessing(filePath, content)) {
-        this.stats.filesSkipped++;
-        progressBar.increment();
-        return;
-      }
+    // Check if file needs processing
+    if (!this.stateManager.needsProcessing(filePath, content)) {
+      this.stats.filesSkipped++;
+      progressBar?.increment();
+      return null;
+    }
 
-      // Chunk the document - catch errors and continue
-      let chunks;
-      try {
-        chunks = await this.chunkDocument(content, filePath);
-      } catch (error) {
-        // Log chunking errors as warnings and skip the file
-        this.stats.warnings.push(
-          `Failed to chunk ${filePath}: ${error instanceof Error ? error.message : String(error)}`
-        );
-        this.stats.errors++;
-        progressBar.increment();
-        return;
-      }
+    // Chunk the document - catch errors and continue
+    let chunks;
+    try {
+      chunks = await this.chunkDocument(content, filePath);
+    } catch (error) {
+      // Log chunking errors as warnings and skip the file
+      this.recordFileError(filePath, error, "Failed to chunk", progressBar);
+      return null;
+    }
 
-      if (chunks.length === 0) {
-        this.stats.warnings.push(`No chunks generated for ${filePath}`);
-        progressBar.increment();
-        return;
-      }
+    if (chunks.length === 0) {
+      this.stats.warnings.push(`No chunks generated for ${filePath}`);
+      progressBar?.increment();
+      return null;
+    }
+
+    return {
+      filePath,
+      content,
+      metadata: this.buildChunkMetadata(filePath, content, chunks),
+    };
+  }
 
-      // Generate embeddings - throws on failure
-      const model = this.openaiProvider.embedding(this.options.model);
+  /**
+   * Write an embedded file to LanceDB and the graph store, replacing its old chunks
+   */
+  private async storeFile(
+    file: PreparedFile,
+    embeddings: number[][],
+    progressBar?: cliProgress.SingleBar
+  ): Promise<void> {
+    const { filePath, content, metadata } = file;
 
-      const { embeddings } = await embedMany({
-        model,
-        values: chunks.map((chunk) => chunk.text),
-      });
+    try {
+      this.checkEmbeddings(embeddings, metadata.length);
 
       // Store embeddings in LanceDB - throws on failure
       if (!this.vectorStore) {
@@ -261,13 +390,10 @@ export class Embedder {
           this.graphStore.removeChunksBySource(filePath);
         }
         
-        chunks.forEach((chunk, i) => {
-          const chunkId = crypto.randomUUID();
+        metadata.forEach((chunkMetadata, i) => {
           const chunkData: GraphChunkData = {
-            id: chunkId,
-            text: chunk.text,
-            source: filePath,
-            chunkIndex: i,
+            id: crypto.randomUUID(),
+            ...chunkMetadata,
           };
           this.graphStore!.addChunk(chunkData, embeddings[i]!);
         });
@@ -278,8 +404,9 @@ export class Embedder {
         const initialData = embeddings.map((vector, i) => ({
           id: crypto.randomUUID(),
           vector,
-          metadata_text: chunks[i].text,
-          metadata_source: filePath,
+          ...Object.fromEntries(
+            Object.entries(metadata[i]!).map(([key, value]) => [`metadata_${key}`, value])
+          ),
         }));
 
         await this.vectorStore.createTable(this.options.tableName, initialData);
@@ -290,42 +417,98 @@ export class Embedder {
           tableName: this.options.tableName,
           indexName: "vector", // Column name where vectors are stored
           vectors: embeddings,
-          metadata: chunks.map((chunk) => ({
-            text: chunk.text,
-            source: filePath,
-          })),
+          metadata,
         });
       }
 
       // Mark as processed
-      this.stateManager.markProcessed(filePath, content, chunks.length);
+      this.stateManager.markProcessed(filePath, content, metadata.length);
       this.stats.filesProcessed++;
-      this.stats.chunksCreated += chunks.length;
+      this.stats.chunksCreated += metadata.length;
 
-      // Add any captured warnings to stats (suppress duplicates from chunking library)
-      if (capturedWarnings.length > 0) {
-        // Only add unique warnings about chunk size issues
-        const chunkWarnings = capturedWarnings.filter(w => w.includes('chunk of size'));
-        if (chunkWarnings.length > 0 && !this.stats.warnings.some(w => w.includes('Chunk size exceeded'))) {
-          this.stats.warnings.push(`Chunk size exceeded in some files (this is usually fine)`);
-        }
-      }
-
-      progressBar.increment();
+      progressBar?.increment();
     } catch (error) {
       // Catch any unexpected errors during processing and continue
-      this.stats.errors++;
-      this.stats.warnings.push(
-        `Error processing ${filePath}: ${error instanceof Error ? error.message : String(error)}`
-      );
-      progressBar.increment();
+      this.recordFileError(filePath, error, "Error processing", progressBar);
+    }
+  }
+
+  /**
+   * Count a file as failed and record it so the next run retries it first
+   */
+  private recordFileError(
+    filePath: string,
+    error: unknown,
+    prefix: string,
+    progressBar?: cliProgress.SingleBar
+  ): void {
+    const message = error instanceof Error ? error.message : String(error);
+    this.stats.errors++;
+    this.stats.warnings.push(`${prefix} ${filePath}: ${message}`);
+    this.stateManager.markFailed(filePath, message);
+    progressBar?.increment();
+  }
+
+  /**
+   * Run a batch with console output intercepted, so chunking library messages
+   * don't interfere with the progress bar
+   * Interception wraps the whole batch: per-file interception would restore the
+   * wrong methods when files in a batch finish out of order.
+   */
+  private async withConsoleCaptured<T>(task: () => Promise<T>): Promise<T> {
+    const originalWarn = console.warn;
+    const originalLog = console.log;
+    const capturedWarnings: string[] = [];
+    console.warn = (...args: any[]) => {
+      capturedWarnings.push(args.join(' '));
+    };
+    console.log = (...args: any[]) => {
+      // Also intercept console.log to catch chunking warnings
+      const msg = args.join(' ');
+      if (msg.includes('chunk of size')) {
+        capturedWarnings.push(msg);
+      }
+    };
+
+    try {
+      return await task();
     } finally {
       // Restore original console methods
       console.warn = originalWarn;
       console.log = originalLog;
+
+      // Add any captured warnings to stats (suppress duplicates from chunking library)
+      const chunkWarnings = capturedWarnings.filter(w => w.includes('chunk of size'));
+      if (chunkWarnings.length > 0 && !this.stats.warnings.some(w => w.includes('Chunk size exceeded'))) {
+        this.stats.warnings.push(`Chunk size exceeded in some files (this is usually fine)`);
+      }
     }
   }
 
+  /**
+   * Build the stored metadata for each chunk of a file
+   * Line and byte ranges are found by locating each chunk's text in the file content.
+   */
+  private buildChunkMetadata(filePath: string, content: string, chunks: any[]): ChunkMetadata[] {
+    const locations = locateChunks(content, chunks.map((chunk) => chunk.text));
+    const fileType = this.getFileType(filePath);
+    const language = detectLanguage(filePath);
+    const contentHash = this.stateManager.computeHash(content);
+
+    return chunks.map((chunk, i) => ({
+      text: chunk.text,
+      source: filePath,
+      chunkIndex: i,
+      ...locations[i]!,
+      fileType,
+      language,
+      contentHash,
+      commitHash: this.commitHash,
+      symbolName: chunk.metadata?.symbolName ?? "",
+      symbolKind: chunk.metadata?.symbolKind ?? "",
+    }));
+  }
+
   private async deleteExistingVectors(filePath: string): Promise<void> {
     if (!this.vectorStore) {
       return;
@@ -350,26 +533,68 @@ export class Embedder {
     }
   }
 
+  /**
+   * Index files: read and chunk them `concurrency` at a time, embed their
+   * chunks in requests packed across files, then write each file once all
+   * of its chunks are embedded
+   */
   private async processBatch(
     files: string[],
-    progressBar: cliProgress.SingleBar
+    progressBar?: cliProgress.SingleBar
   ): Promise<void> {
-    const batchSize = this.options.batchSize!;
+    const concurrency = this.options.concurrency!;
+    const batcher = new EmbeddingBatcher<PreparedFile>(
+      this.embeddingClient,
+      { maxChunks: this.options.batchSize!, maxTokens: this.options.batchTokens! },
+      (file, embeddings) => this.storeFile(file, embeddings, progressBar),
+      (file, error) => this.recordFileError(file.filePath, error, "Error processing", progressBar)
+    );
 
-    for (let i = 0; i < files.length; i += batchSize) {
-      const batch = files.slice(i, i + batchSize);
-      await Promise.all(
-        batch.map((file) => this.processFile(file, progressBar))
-      );
-      
-      // Save state after each batch to allow resuming
-      this.stateManager.saveState();
-      
-      // Save graph data periodically (every 10 batches) to reduce I/O
-      // Final save happens at the end in buildKnowledgeGraph()
-      if (this.options.enableGraph && this.graphStore && i % (batchSize * 10) === 0) {
-        this.graphStore.save();
+    try {
+      for (let i = 0; i < files.length; i += concurrency) {
+        const group = files.slice(i, i + concurrency);
+        const prepared = await this.withConsoleCaptured(() => Promise.all(
+          group.map((file) => this.prepareFile(file, progressBar))
+        ));
+
+        for (const file of prepared) {
+          if (file) {
+            await batcher.add(file, file.metadata.map((chunk) => chunk.text));
+          }
+        }
+
+        // Save state after each group to allow resuming
+        this.stateManager.saveState();
+
+        // Stop cleanly rather than failing every remaining file against a dead endpoint
+        if (this.embeddingClient.isCircuitOpen()) {
+          progressBar?.stop();
+          this.graphStore?.save();
+          throw new Error(
+            `Stopped indexing: the embedding endpoint at ${this.provider.baseUrl} is not responding\n` +
+            `${files.length - i - group.length + batcher.getPendingCount()} file(s) were not attempted; ` +
+            `${this.stateManager.getFailedFiles().length} failed file(s) will be retried first on the next run\n\n` +
+            `Suggestions:\n` +
+            `  • Check that the server is running and --model '${this.options.model}' is loaded\n` +
+            `  • Lower --batch-size or set --requests-per-second if the server is overloaded\n` +
+            `  • Re-run the same command once the endpoint is back`
+          );
+        }
+
+        // Save graph data periodically (every 10 groups) to reduce I/O
+        // Final save happens at the end in buildKnowledgeGraph()
+        if (this.options.enableGraph && this.graphStore && i % (concurrency * 10) === 0) {
+          this.graphStore.save();
+        }
       }
+
+      await batcher.flush();
+      this.stateManager.saveState();
+    } finally {
+      const { requests, chunks, elapsedMs } = batcher.getStats();
+      this.stats.embeddingRequests = (this.stats.embeddingRequests ?? 0) + requests;
+      this.stats.chunksEmbedded = (this.stats.chunksEmbedded ?? 0) + chunks;
+      this.stats.embeddingMs = (this.stats.embeddingMs ?? 0) + elapsedMs;
     }
   }
 
@@ -378,29 +603,242 @@ export class Embedder {
       return;
     }
 
-    console.log(chalk.cyan("\nBuilding knowledge graph from persisted data..."));
+    console.log(chalk.cyan("\nUpdating knowledge graph edges..."));
 
-    // Save graph data
-    this.graphStore.save();
+    const progressBar = new cliProgress.SingleBar({
+      format: chalk.cyan("{bar}") + " | {percentage}% | {value}/{total} steps | ETA: {eta}s",
+      barCompleteChar: "\u2588",
+      barIncompleteChar: "\u2591",
+      hideCursor: true,
+    }, cliProgress.Presets.shades_classic);
 
-    // Update stats
-    const stats = this.graphStore.getStats();
-    this.stats.graphNodesCreated = stats.nodeCount;
-    // Edges are created based on similarity threshold - estimate
-    this.stats.graphEdgesCreated = Math.floor(stats.nodeCount * 0.3);
+    // Link the chunks added by this run, then save graph data
+    let update;
+    try {
+      update = this.graphStore.updateEdges({
+        ...this.getGraphEdgeOptions(),
+        onProgress: (done, total) => {
+          if (done === 1) {
+            progressBar.start(total, 0);
+          }
+          progressBar.update(done);
+        },
+      });
+    } finally {
+      progressBar.stop();
+    }
+    this.stats.graphChunksLinked = update.chunksLinked;
+    this.stats.graphStructuralEdges = this.graphStore.updateStructure();
+    this.updateGraphStats();
+
+    const method = update.method
+      ? `, ${update.method === "ann" ? "approximate" : "exact"}${update.quantized ? " with int8 vectors" : ""}`
+      : "";
+    console.log(chalk.green(
+      `✓ Knowledge graph has ${this.stats.graphNodesCreated} nodes and ${this.stats.graphEdgesCreated} edges ` +
+      `(edges computed for ${this.stats.graphChunksLinked} chunk(s)${method})`
+    ));
+    const { contains, imports, references } = this.stats.graphStructuralEdges;
+    console.log(chalk.green(
+      `✓ Structural edges: ${contains} contains, ${imports} imports, ${references} references`
+    ));
+    console.log(chalk.gray(`  Graph data saved to: ${path.join(this.options.output, "graph-data")}`));
+  }
 
-    // Update state with graph metadata
-    this.stateManager.updateGraphMetadata(
-      this.stats.graphNodesCreated || 0,
-      this.stats.graphEdgesCreated || 0
-    );
+  /**
+   * Compute missing graph edges when nothing was re-indexed, e.g., after --graph-top-k changed
+   */
+  private linkUnlinkedGraphChunks(): void {
+    if (this.options.enableGraph && (this.graphStore?.needsEdges() || this.graphStore?.needsStructure())) {
+      this.buildKnowledgeGraph();
+      this.stateManager.saveState();
+    }
+  }
 
-    console.log(chalk.green(`✓ Knowledge graph built with ${stats.nodeCount} nodes`));
-    console.log(chalk.gray(`  Graph data saved to: ${this.options.output}/graph-data.json`));
+  private getGraphEdgeOptions(): GraphEdgeOptions {
+    return {
+      ...(this.options.graphEdges && { method: this.options.graphEdges }),
+      ...(this.options.graphEf && { ef: this.options.graphEf }),
+      ...(this.options.graphMemory && { memoryMb: this.options.graphMemory }),
+    };
+  }
+
+  /**
+   * Record the graph's node count, edge counts and degree distribution in the stats and the state file
+   */
+  private updateGraphStats(): void {
+    const { nodeCount } = this.graphStore!.getStats();
+    const { edgeCount, degrees } = this.graphStore!.getEdgeStats();
+    this.stats.graphNodesCreated = nodeCount;
+    this.stats.graphEdgesCreated = edgeCount;
+    this.stats.graphDegrees = degrees;
+    this.stateManager.updateGraphMetadata(nodeCount, edgeCount, degrees, this.stats.graphStructuralEdges);
+  }
+
+  /**
+   * Embed a probe string to learn the model's vector length
+   * Uses --dimensions when it is given, but fails fast if the model disagrees.
+   * Changes nothing: the graph store only takes the dimension once the fingerprint check passes.
+   */
+  private async resolveDimension(): Promise<number> {
+    let probed: number;
+    try {
+      probed = (await this.embeddingClient.embed("dimension probe")).length;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      // In-process models report their own problems (missing package, unknown model)
+      if (!this.provider.baseUrl) {
+        throw new Error(`Failed to load model '${this.options.model}' (${this.provider.name} provider)\n${message}`);
+      }
+
+      throw new Error(
+        `Failed to reach the embedding endpoint at ${this.provider.baseUrl} (${this.provider.name} provider)\n` +
+        `${message}\n\n` +
+        `Suggestions:\n` +
+        `  • Check that the server is running and --base-url is correct\n` +
+        `  • Check that --model '${this.options.model}' is loaded\n` +
+        `  • Check --provider (openai, ollama or transformers)`
+      );
+    }
+
+    if (this.options.dimension && this.options.dimension !== probed) {
+      throw new Error(
+        `--dimensions is ${this.options.dimension} but model '${this.options.model}' returns ${probed}-dimensional vectors\n\n` +
+        `Suggestions:\n` +
+        `  • Omit --dimensions to use the model's dimension\n` +
+        `  • Pass --dimensions ${probed}`
+      );
+    }
+
+    return probed;
+  }
+
+  /**
+   * Reject embedding results that don't match the chunks or the index dimension
+   * Runs before anything is written, so a bad response never reaches LanceDB or the graph store.
+   */
+  private checkEmbeddings(embeddings: number[][], expectedCount: number): void {
+    if (embeddings.length !== expectedCount) {
+      throw new Error(`Expected ${expectedCount} embeddings but received ${embeddings.length}`);
+    }
+
+    const invalid = embeddings.findIndex((embedding) => embedding.length !== this.dimension);
+    if (invalid !== -1) {
+      throw new Error(
+        `Embedding ${invalid} has ${embeddings[invalid]!.length} dimensions, expected ${this.dimension}`
+      );
+    }
+  }
+
+  /**
+   * Settings that must stay the same for every vector in the index
+   */
+  private getFingerprint(): IndexFingerprint {
+    const chunking = Object.keys(this.options.chunking ?? {})
+      .sort()
+      .map((ext) => [ext, Object.entries(this.options.chunking![ext]!).sort(([a], [b]) => a.localeCompare(b))]);
+
+    return {
+      provider: this.provider.name,
+      model: this.options.model,
+      baseUrl: this.provider.baseUrl,
+      dimension: this.dimension,
+      chunkingHash: this.stateManager.computeHash(JSON.stringify({ version: CHUNKING_VERSION, chunking })),
+    };
+  }
+
+  /**
+   * Compare the current settings with those the index was built with
+   * A mismatch either fails the run or, with reindexOnChange, wipes the index.
+   * @returns true if the index was wiped and must be rebuilt from scratch
+   */
+  private async checkFingerprint(): Promise<boolean> {
+    const current = this.getFingerprint();
+    const stored = this.stateManager.getFingerprint();
+    // Indexes built before providers were selectable all used the OpenAI-compatible API
+    const previous = stored && { ...stored, provider: stored.provider ?? "openai" };
+
+    // New index, or state written before fingerprints were recorded
+    if (!previous) {
+      this.stateManager.setFingerprint(current);
+      return false;
+    }
+
+    const changes = this.getFingerprintChanges(current, previous);
+
+    if (changes.length === 0) {
+      this.stateManager.setFingerprint(current); // Fills in fields added since it was written
+      return false;
+    }
+
+    if (!this.options.reindexOnChange) {
+      throw this.fingerprintMismatchError(changes);
+    }
+
+    console.log(chalk.yellow("Embedding settings changed since the last run:"));
+    changes.forEach((change) => console.log(chalk.yellow(change)));
+    console.log(chalk.yellow("Dropping the existing index and rebuilding from scratch\n"));
+
+    await this.initVectorStore();
+    const tables = await this.vectorStore!.listTables();
+    if (tables.includes(this.options.tableName)) {
+      await this.vectorStore!.deleteTable(this.options.tableName);
+    }
+
+    if (GraphStore.exists(this.options.output)) {
+      (this.graphStore ?? new GraphStore(this.options.output)).clear();
+    }
+
+    this.stateManager.reset();
+    this.stateManager.setFingerprint(current);
+    this.stateManager.saveState();
+    return true;
   }
 
-  public async run(): Promise<void> {
-    const mode = this.options.mode || 'full';
+  private getFingerprintChanges(current: IndexFingerprint, previous: IndexFingerprint): string[] {
+    return (Object.keys(current) as (keyof IndexFingerprint)[])
+      .filter((key) => current[key] !== previous[key])
+      .map((key) => key === "chunkingHash"
+        ? `  chunking: configuration changed`
+        : `  ${key}: ${previous[key]} → ${current[key]}`);
+  }
+
+  private fingerprintMismatchError(changes: string[]): Error {
+    return new Error(
+      `Index at ${this.options.output} was built with different embedding settings\n` +
+      `${changes.join("\n")}\n\n` +
+      `Vectors from different settings can't be mixed in one index.\n\n` +
+      `Suggestions:\n` +
+      `  • Re-run with --reindex-on-change to drop the index and rebuild it\n` +
+      `  • Restore the previous --provider, --model, --dimensions, --base-url or chunking config\n` +
+      `  • Use a different --output directory`
+    );
+  }
+
+  /**
+   * Run an indexing pass
+   * @param requestedMode - Override the configured mode (e.g., watch mode runs 'intelligent' then 'diff')
+   */
+  public async run(requestedMode: EmbedderOptions["mode"] = this.options.mode): Promise<void> {
+    let mode = requestedMode || 'full';
+    this.resetStats(mode === 'diff' ? 'diff' : 'full');
+
+    this.dimension = await this.resolveDimension();
+
+    // A wiped index has no previous commit to diff against
+    const wiped = await this.checkFingerprint();
+    if (wiped) {
+      mode = 'full';
+      this.stats.indexMode = 'full';
+    }
+
+    // Only after the check: a new threshold or top-k drops the stored edges
+    this.graphStore?.setConfig(this.dimension, this.options.graphThreshold!, this.options.graphTopK);
+
+    if (isGitRepository(this.options.dir)) {
+      this.commitHash = getCurrentCommitHash(this.options.dir) ?? "";
+    }
     
     switch (mode) {
       case 'full':
@@ -423,12 +861,19 @@ export class Embedder {
     console.log(chalk.gray(`Directory: ${this.options.dir}`));
     console.log(chalk.gray(`Output: ${this.options.output}`));
     console.log(chalk.gray(`Table: ${this.options.tableName}`));
-    console.log(chalk.gray(`Dimension: ${this.options.dimension}`));
+    console.log(chalk.gray(`Dimension: ${this.dimension}` + (this.options.dimension ? "" : " (detected)")));
+    console.log(chalk.gray(`Provider: ${this.provider.name}`));
     console.log(chalk.gray(`Model: ${this.options.model}`));
-    console.log(chalk.gray(`Base URL: ${this.options.baseUrl}`));
+    if (this.provider.baseUrl) {
+      console.log(chalk.gray(`Base URL: ${this.provider.baseUrl}`));
+    }
     if (this.options.enableGraph) {
       console.log(chalk.gray(`GraphRAG: enabled`));
       console.log(chalk.gray(`Graph Threshold: ${this.options.graphThreshold}`));
+      if (this.options.graphTopK) {
+        console.log(chalk.gray(`Graph Top-K: ${this.options.graphTopK}`));
+      }
+      console.log(chalk.gray(`Graph Edges: ${this.options.graphEdges ?? "auto"}`));
     }
     console.log();
 
@@ -439,14 +884,30 @@ export class Embedder {
 
     // Discover files
     console.log(chalk.cyan("Discovering files..."));
-    const files = this.fileDiscovery.discoverFiles();
+    const files = this.prioritizeFailed(this.fileDiscovery.discoverFiles());
     console.log(chalk.green(`Found ${files.length} text files\n`));
 
+    // Failures for files that are gone (or now ignored) can't be retried
+    const discovered = new Set(files);
+    this.stateManager.getFailedFiles()
+      .filter((failed) => !discovered.has(failed.path))
+      .forEach((failed) => this.stateManager.clearFailure(failed.path));
+
     if (files.length === 0) {
       console.log(chalk.yellow("No files to process"));
       return;
     }
 
+    // Files indexed by an earlier run that were deleted or are now ignored
+    // (skipped when nothing was discovered, so a wrong --dir can't empty the index)
+    const stale = this.getStaleFiles(files);
+    if (stale.length > 0) {
+      console.log(chalk.cyan(`Removing ${stale.length} file(s) that no longer exist or are ignored...`));
+      await this.removeFiles(stale);
+      this.stats.filesDeleted = stale.length;
+      console.log(chalk.green(`✓ Removed stale entries for ${stale.length} file(s)\n`));
+    }
+
     // Create progress bar
     const progressBar = new cliProgress.SingleBar(
       {
@@ -478,6 +939,9 @@ export class Embedder {
       if (currentCommit) {
         this.stateManager.setLastCommitHash(currentCommit);
       }
+
+      // Files were read from disk, so uncommitted edits may be in the index
+      this.stateManager.setWorkingTreeFiles(getDiffPaths(getWorkingTreeChanges(this.options.dir, this.fileDiscovery)));
     }
 
     // Save state
@@ -488,34 +952,63 @@ export class Embedder {
   }
 
   private async runIntelligent(): Promise<void> {
+    const { mode, message } = this.resolveIntelligentMode();
+
+    switch (mode) {
+      case 'full':
+        console.log(chalk.yellow(message));
+        return this.runFull();
+      case 'diff':
+        console.log(chalk.cyan(message));
+        return this.runDiff();
+      default:
+        console.log(chalk.green(message));
+        this.linkUnlinkedGraphChunks();
+    }
+  }
+
+  /**
+   * Pick the mode an intelligent run uses
+   * @returns The mode (null when the index is up to date) and why it was chosen
+   */
+  private resolveIntelligentMode(): { mode: 'full' | 'diff' | null; message: string } {
     // Check if git repository
     if (!isGitRepository(this.options.dir)) {
-      console.log(chalk.yellow("Not a git repository, using full indexing mode"));
-      return this.runFull();
+      return { mode: 'full', message: "Not a git repository, using full indexing mode" };
     }
 
     // Check if we have a last commit hash
     const lastCommit = this.stateManager.getLastCommitHash();
     if (!lastCommit) {
-      console.log(chalk.yellow("No previous commit found, using full indexing mode"));
-      return this.runFull();
+      return { mode: 'full', message: "No previous commit found, using full indexing mode" };
     }
 
     // Check if current commit differs
     const currentCommit = getCurrentCommitHash(this.options.dir);
     if (!currentCommit) {
-      console.log(chalk.yellow("Cannot determine current commit, using full indexing mode"));
-      return this.runFull();
+      return { mode: 'full', message: "Cannot determine current commit, using full indexing mode" };
     }
 
     if (lastCommit === currentCommit) {
-      console.log(chalk.green("✓ Already indexed at commit " + currentCommit.substring(0, 7)));
-      return;
+      const workingTreeChanged =
+        this.stateManager.getWorkingTreeFiles().length > 0 ||
+        (this.options.includeWorkingTree && hasUncommittedChanges(this.options.dir));
+
+      const failedCount = this.stateManager.getFailedFiles().length;
+
+      if (!workingTreeChanged && failedCount === 0) {
+        return { mode: null, message: "✓ Already indexed at commit " + currentCommit.substring(0, 7) };
+      }
+
+      if (!workingTreeChanged) {
+        return { mode: 'diff', message: `Retrying ${failedCount} previously failed file(s), using diff mode` };
+      }
+
+      return { mode: 'diff', message: "Auto-detected working tree changes, using diff mode" };
     }
 
     // Use diff mode
-    console.log(chalk.cyan("Auto-detected changes, using diff mode"));
-    return this.runDiff();
+    return { mode: 'diff', message: "Auto-detected changes, using diff mode" };
   }
 
   private async runDiff(): Promise<void> {
@@ -525,50 +1018,43 @@ export class Embedder {
     this.stats.filesModified = 0;
     this.stats.filesDeleted = 0;
 
-    // Validate git repository
-    if (!isGitRepository(this.options.dir)) {
-      throw new Error(
-        `Diff mode requires a git repository\n` +
-        `Directory: ${this.options.dir} is not a git repository\n\n` +
-        `Suggestions:\n` +
-        `  • Use --mode full for non-git directories\n` +
-        `  • Initialize git: git init\n` +
-        `  • Use --mode intelligent to auto-detect`
-      );
-    }
+    this.checkGitRepository();
 
     // Get commit range
-    const fromCommit = this.options.fromCommit || this.stateManager.getLastCommitHash();
-    if (!fromCommit) {
+    const range = this.resolveDiffRange();
+    if (!range) {
       console.log(chalk.yellow("Warning: No previous commit hash found"));
       console.log(chalk.yellow("Falling back to full indexing mode for initial setup"));
       return this.runFull();
     }
 
-    const toCommit = getCurrentCommitHash(this.options.dir);
-    if (!toCommit) {
-      throw new Error("Cannot determine current commit hash");
-    }
-
+    const { fromCommit, toCommit } = range;
     this.stats.fromCommit = fromCommit;
     this.stats.toCommit = toCommit;
 
     // Check for uncommitted changes
+    const includeWorkingTree = this.options.includeWorkingTree ?? false;
     if (hasUncommittedChanges(this.options.dir)) {
       const changeCount = getUncommittedChangeCount(this.options.dir);
-      console.log(chalk.yellow(`\nWarning: ${changeCount} uncommitted change(s) detected`));
-      console.log(chalk.yellow("Diff mode only indexes committed changes"));
-      console.log(chalk.gray("Run 'git status' for details\n"));
+      if (includeWorkingTree) {
+        console.log(chalk.cyan(`\nIncluding ${changeCount} uncommitted change(s)`));
+      } else {
+        console.log(chalk.yellow(`\nWarning: ${changeCount} uncommitted change(s) detected`));
+        console.log(chalk.yellow("Diff mode only indexes committed changes"));
+        console.log(chalk.gray("Use --include-working-tree to index them, or run 'git status' for details\n"));
+      }
     }
 
-    // Get changed files
-    const diff = getChangedFiles(this.options.dir, fromCommit, toCommit);
+    const diff = this.collectChanges(fromCommit, toCommit);
 
     // Print header
     console.log(chalk.blue.bold("\nDiff-based Indexing" + 
       (this.options.enableGraph ? " (GraphRAG Enhanced)" : "") + "\n"));
     console.log(chalk.gray(`From commit: ${fromCommit.substring(0, 7)}`));
     console.log(chalk.gray(`To commit:   ${toCommit.substring(0, 7)}`));
+    if (includeWorkingTree) {
+      console.log(chalk.gray(`Working tree: included`));
+    }
     console.log(chalk.gray(`Directory:   ${this.options.dir}`));
     console.log(chalk.gray(`Output:      ${this.options.output}`));
 
@@ -578,6 +1064,7 @@ export class Embedder {
     
     if (totalChanges === 0) {
       console.log(chalk.green("\n✓ No changes detected, index is up to date"));
+      this.linkUnlinkedGraphChunks();
       return;
     }
 
@@ -602,7 +1089,7 @@ export class Embedder {
     await this.ensureIndex();
 
     // Process added and modified files
-    const filesToProcess = [...diff.added, ...diff.modified];
+    const filesToProcess = this.prioritizeFailed([...diff.added, ...diff.modified]);
     
     if (filesToProcess.length > 0) {
       console.log(chalk.cyan(`Processing ${filesToProcess.length} changed file(s)...\n`));
@@ -627,13 +1114,7 @@ export class Embedder {
       console.log(chalk.cyan(`\nProcessing ${diff.renamed.length} renamed file(s)...`));
       
       // Delete old paths
-      for (const {from, to} of diff.renamed) {
-        await this.deleteFileVectors([from]);
-        this.stateManager.removeFile(from);
-        if (this.graphStore) {
-          this.graphStore.removeChunksBySource(from);
-        }
-      }
+      await this.removeFiles(diff.renamed.map(r => r.from));
       
       // Process new paths
       const renamedToPaths = diff.renamed.map(r => r.to);
@@ -654,19 +1135,7 @@ export class Embedder {
     // Delete removed files
     if (diff.deleted.length > 0) {
       console.log(chalk.cyan(`\nCleaning up ${diff.deleted.length} deleted file(s)...`));
-      await this.deleteFileVectors(diff.deleted);
-      
-      // Remove from state
-      for (const filePath of diff.deleted) {
-        this.stateManager.removeFile(filePath);
-      }
-      
-      // Remove from graph store
-      if (this.graphStore) {
-        for (const filePath of diff.deleted) {
-          this.graphStore.removeChunksBySource(filePath);
-        }
-      }
+      await this.removeFiles(diff.deleted);
       
       this.stats.filesDeleted = diff.deleted.length;
       console.log(chalk.green(`✓ Deleted vectors for ${diff.deleted.length} file(s)`));
@@ -678,13 +1147,366 @@ export class Embedder {
     }
 
     // Update state with new commit hash (ONLY after everything succeeds)
+    // Dirty files are recorded so the next run re-checks them against their committed state
     this.stateManager.setLastCommitHash(toCommit);
+    this.stateManager.setWorkingTreeFiles(getDiffPaths(getWorkingTreeChanges(this.options.dir, this.fileDiscovery)));
     this.stateManager.saveState();
 
     // Print summary
     this.printSummary();
   }
 
+  private checkGitRepository(): void {
+    if (!isGitRepository(this.options.dir)) {
+      throw new Error(
+        `Diff mode requires a git repository\n` +
+        `Directory: ${this.options.dir} is not a git repository\n\n` +
+        `Suggestions:\n` +
+        `  • Use --mode full for non-git directories\n` +
+        `  • Initialize git: git init\n` +
+        `  • Use --mode intelligent to auto-detect`
+      );
+    }
+  }
+
+  /**
+   * Commit range for diff mode
+   * @returns null when there is no previous commit to diff against
+   */
+  private resolveDiffRange(): { fromCommit: string; toCommit: string } | null {
+    const fromCommit = this.options.fromCommit || this.stateManager.getLastCommitHash();
+    if (!fromCommit) {
+      return null;
+    }
+
+    const toCommit = getCurrentCommitHash(this.options.dir);
+    if (!toCommit) {
+      throw new Error("Cannot determine current commit hash");
+    }
+
+    return { fromCommit, toCommit };
+  }
+
+  /**
+   * Get changed files, then re-check files read from an earlier working tree
+   * (e.g., an indexed edit that was reverted without a commit) and files that failed last time
+   */
+  private collectChanges(fromCommit: string, toCommit: string): GitDiffResult {
+    return mergeDiffResults(
+      mergeDiffResults(this.getFailedFilesDiff(), this.getPreviousWorkingTreeDiff()),
+      getChangedFiles(this.options.dir, fromCommit, toCommit, {
+        includeWorkingTree: this.options.includeWorkingTree ?? false,
+        fileDiscovery: this.fileDiscovery,
+      })
+    );
+  }
+
+  /**
+   * Classify files recorded as dirty by the previous run
+   * Files that still exist are re-processed (unchanged content is skipped by hash),
+   * files that are gone are removed from the index.
+   */
+  private getPreviousWorkingTreeDiff(): GitDiffResult {
+    const files = this.stateManager.getWorkingTreeFiles();
+    return {
+      added: [],
+      modified: files.filter((filePath) => fs.existsSync(filePath)),
+      deleted: files.filter((filePath) => !fs.existsSync(filePath)),
+      renamed: [],
+    };
+  }
+
+  /**
+   * Files that failed in an earlier run, classified like getPreviousWorkingTreeDiff()
+   */
+  private getFailedFilesDiff(): GitDiffResult {
+    const files = this.stateManager.getFailedFiles().map((failed) => failed.path);
+    return {
+      added: [],
+      modified: files.filter((filePath) => fs.existsSync(filePath)),
+      deleted: files.filter((filePath) => !fs.existsSync(filePath)),
+      renamed: [],
+    };
+  }
+
+  /**
+   * Move files that failed in an earlier run to the front, keeping the order otherwise
+   */
+  private prioritizeFailed(files: string[]): string[] {
+    const failed = new Set(this.stateManager.getFailedFiles().map((file) => file.path));
+    if (failed.size === 0) {
+      return files;
+    }
+    return [
+      ...files.filter((filePath) => failed.has(filePath)),
+      ...files.filter((filePath) => !failed.has(filePath)),
+    ];
+  }
+
+  /**
+   * Work out what a run would do, without embedding or writing anything (--dry-run)
+   * Files are discovered, checked against the state file and chunked like a
+   * real run; the embedding endpoint, LanceDB and the state file are never touched.
+   * @param requestedMode - Override the configured mode
+   */
+  public async plan(requestedMode: EmbedderOptions["mode"] = this.options.mode): Promise<IndexPlan> {
+    let mode = requestedMode || 'full';
+    const plan: IndexPlan = { mode: 'full', add: [], update: [], delete: [], skip: [], failed: [], excluded: [] };
+
+    // Changed embedding settings: the index would be dropped and every file re-embedded
+    const rebuild = this.checkFingerprintForPlan();
+    if (rebuild) {
+      mode = 'full';
+      plan.reason = "Embedding settings changed, the index would be rebuilt from scratch";
+    }
+
+    if (mode === 'intelligent') {
+      const resolved = this.resolveIntelligentMode();
+      plan.reason = resolved.message;
+      if (!resolved.mode) {
+        plan.mode = null;
+        return plan;
+      }
+      mode = resolved.mode;
+    }
+
+    if (mode === 'diff') {
+      this.checkGitRepository();
+      const range = this.resolveDiffRange();
+
+      if (range) {
+        const diff = this.collectChanges(range.fromCommit, range.toCommit);
+        plan.mode = 'diff';
+        plan.fromCommit = range.fromCommit;
+        plan.toCommit = range.toCommit;
+        plan.diff = diff;
+        plan.delete = [...diff.deleted, ...diff.renamed.map((r) => r.from)];
+        await this.planFiles(plan, [...diff.added, ...diff.modified, ...diff.renamed.map((r) => r.to)], rebuild);
+        return plan;
+      }
+
+      plan.reason = "No previous commit hash found, falling back to full indexing mode";
+    } else if (mode !== 'full') {
+      throw new Error(`Invalid mode: ${mode}. Valid modes: full, diff, intelligent`);
+    }
+
+    const { files, excluded } = this.fileDiscovery.discoverFilesWithExclusions();
+    plan.excluded = excluded;
+    if (files.length > 0 && !rebuild) {
+      plan.delete = this.getStaleFiles(files);
+    }
+    await this.planFiles(plan, files, rebuild);
+    return plan;
+  }
+
+  /**
+   * Compare the settings with the stored fingerprint like checkFingerprint(), without changing anything
+   * The dimension is only compared when --dimensions is given, as probing it needs the endpoint.
+   * @returns true if a run would drop the index and rebuild it
+   */
+  private checkFingerprintForPlan(): boolean {
+    const stored = this.stateManager.getFingerprint();
+    if (!stored) {
+      return false;
+    }
+
+    this.dimension = this.options.dimension ?? stored.dimension;
+    const changes = this.getFingerprintChanges(this.getFingerprint(), { ...stored, provider: stored.provider ?? "openai" });
+
+    if (changes.length > 0 && !this.options.reindexOnChange) {
+      throw this.fingerprintMismatchError(changes);
+    }
+    return changes.length > 0;
+  }
+
+  /**
+   * Read, hash-check and chunk files `concurrency` at a time, adding them to the plan
+   * @param rebuild - Ignore the state file (every file is new)
+   */
+  private async planFiles(plan: IndexPlan, files: string[], rebuild: boolean): Promise<void> {
+    const indexed = new Set(rebuild ? [] : this.stateManager.getProcessedFiles());
+    const concurrency = this.options.concurrency!;
+
+    for (let i = 0; i < files.length; i += concurrency) {
+      const group = files.slice(i, i + concurrency);
+      const planned = await this.withConsoleCaptured(() => Promise.all(
+        group.map((file) => this.planFile(file, rebuild))
+      ));
+
+      planned.forEach((result, j) => {
+        const filePath = group[j]!;
+        if (typeof result === "string") {
+          plan.failed.push({ path: filePath, error: result });
+        } else if (result === null) {
+          plan.skip.push(filePath);
+        } else {
+          (indexed.has(filePath) ? plan.update : plan.add).push(result);
+        }
+      });
+    }
+  }
+
+  /**
+   * @returns The planned file, null if it is unchanged, or an error message
+   */
+  private async planFile(filePath: string, rebuild: boolean): Promise<PlannedFile | null | string> {
+    let content: string;
+    try {
+      content = this.fileDiscovery.readFileContent(filePath);
+    } catch (error) {
+      return `Cannot read: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    if (!rebuild && !this.stateManager.needsProcessing(filePath, content)) {
+      return null;
+    }
+
+    let chunks;
+    try {
+      chunks = await this.chunkDocument(content, filePath);
+    } catch (error) {
+      return `Failed to chunk: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    if (chunks.length === 0) {
+      return "No chunks generated";
+    }
+
+    return {
+      path: filePath,
+      fileType: this.getFileType(filePath),
+      bytes: Buffer.byteLength(content, "utf-8"),
+      chunks: chunks.length,
+      tokens: estimateTokens(chunks.map((chunk) => chunk.text)),
+    };
+  }
+
+  /**
+   * Re-index changed files and remove deleted ones, outside of a full or diff run
+   * Used by watch mode; the caller is responsible for calling flush() afterwards.
+   * @param changed - Files that were added or modified
+   * @param deleted - Files that no longer exist
+   */
+  public async syncFiles(changed: string[], deleted: string[]): Promise<ProcessingStats> {
+    this.resetStats('diff');
+    if (!this.dimension) {
+      this.dimension = await this.resolveDimension();
+      this.graphStore?.setConfig(this.dimension, this.options.graphThreshold!, this.options.graphTopK);
+    }
+    await this.initVectorStore();
+    await this.ensureIndex();
+
+    if (changed.length > 0) {
+      await this.processBatch(changed);
+    }
+
+    const indexed = new Set(this.stateManager.getProcessedFiles());
+    const removed = deleted.filter((filePath) => indexed.has(filePath));
+    if (removed.length > 0) {
+      await this.removeFiles(removed);
+      this.stats.filesDeleted = removed.length;
+    }
+
+    // Files were read from disk, so record which ones differ from HEAD
+    if (isGitRepository(this.options.dir)) {
+      this.stateManager.setWorkingTreeFiles(getDiffPaths(getWorkingTreeChanges(this.options.dir, this.fileDiscovery)));
+    }
+
+    this.stats.retries = this.embeddingClient.getRetryCount();
+    return this.stats;
+  }
+
+  /**
+   * Re-index files whose stores disagree (verify --repair)
+   * Their state entries are dropped first, so files are re-embedded even if
+   * their content is unchanged; files that no longer exist are removed.
+   * @param filePaths - Sources reported by the Verifier
+   */
+  public async repair(filePaths: string[]): Promise<ProcessingStats> {
+    this.dimension = await this.resolveDimension();
+
+    // Changed settings with --reindex-on-change wiped the index: rebuild all of it
+    if (await this.checkFingerprint()) {
+      await this.run('full');
+      return this.stats;
+    }
+    this.graphStore?.setConfig(this.dimension, this.options.graphThreshold!, this.options.graphTopK);
+
+    if (isGitRepository(this.options.dir)) {
+      this.commitHash = getCurrentCommitHash(this.options.dir) ?? "";
+    }
+
+    const existing = filePaths.filter((filePath) => fs.existsSync(filePath));
+    const missing = filePaths.filter((filePath) => !fs.existsSync(filePath));
+    existing.forEach((filePath) => this.stateManager.removeFile(filePath));
+
+    const stats = await this.syncFiles(existing, []);
+
+    // Not necessarily in the state file, so removed directly rather than through syncFiles()
+    if (missing.length > 0) {
+      await this.removeFiles(missing);
+      stats.filesDeleted = missing.length;
+    }
+
+    this.flush();
+    return stats;
+  }
+
+  /**
+   * Persist state and graph data without rebuilding anything
+   */
+  public flush(): void {
+    if (this.options.enableGraph && this.graphStore) {
+      this.graphStore.updateEdges(this.getGraphEdgeOptions());
+      this.stats.graphStructuralEdges = this.graphStore.updateStructure();
+      this.updateGraphStats();
+    }
+    this.stateManager.saveState();
+  }
+
+  /**
+   * Paths of every file currently in the index
+   */
+  public getIndexedFiles(): string[] {
+    return this.stateManager.getProcessedFiles();
+  }
+
+  private resetStats(indexMode: ProcessingStats["indexMode"]): void {
+    this.embeddingClient.resetRetryCount();
+    this.stats = {
+      filesProcessed: 0,
+      filesSkipped: 0,
+      chunksCreated: 0,
+      errors: 0,
+      warnings: [],
+      indexMode,
+      graphNodesCreated: 0,
+      graphEdgesCreated: 0,
+    };
+    this.startedAt = Date.now();
+  }
+
+  /**
+   * Files in the state file or graph store that are not among the discovered files
+   */
+  private getStaleFiles(discovered: string[]): string[] {
+    const files = new Set(discovered);
+    const indexed = new Set([...this.stateManager.getProcessedFiles(), ...(this.graphStore?.getSources() ?? [])]);
+    return [...indexed].filter((filePath) => !files.has(filePath));
+  }
+
+  /**
+   * Remove files from the vector store, state and graph store
+   */
+  private async removeFiles(filePaths: string[]): Promise<void> {
+    await this.deleteFileVectors(filePaths);
+
+    for (const filePath of filePaths) {
+      this.stateManager.removeFile(filePath);
+      this.graphStore?.removeChunksBySource(filePath);
+    }
+  }
+
   private async deleteFileVectors(filePaths: string[]): Promise<void> {
     if (!this.vectorStore || filePaths.length === 0) {
       return;
@@ -725,20 +1547,60 @@ export class Embedder {
       console.log(chalk.cyan(`Mode: Full indexing`));
       console.log(chalk.green(`✓ Files processed: ${this.stats.filesProcessed}`));
       console.log(chalk.gray(`- Files skipped: ${this.stats.filesSkipped}`));
+      if (this.stats.filesDeleted) {
+        console.log(chalk.red(`✓ Stale files removed: ${this.stats.filesDeleted}`));
+      }
     }
     
     console.log(chalk.cyan(`- Chunks created: ${this.stats.chunksCreated}`));
 
+    if (this.stats.embeddingRequests) {
+      const seconds = (Date.now() - this.startedAt) / 1000;
+      const embeddingSeconds = this.stats.embeddingMs! / 1000;
+      console.log(chalk.gray(
+        `- Embedding: ${this.stats.chunksEmbedded} chunks in ${this.stats.embeddingRequests} request(s), ` +
+        `avg ${(this.stats.chunksEmbedded! / this.stats.embeddingRequests).toFixed(1)} chunks/request`
+      ));
+      console.log(chalk.gray(
+        `- Throughput: ${(this.stats.chunksEmbedded! / Math.max(seconds, 0.001)).toFixed(1)} chunks/s overall, ` +
+        `${(this.stats.chunksEmbedded! / Math.max(embeddingSeconds, 0.001)).toFixed(1)} chunks/s while embedding ` +
+        `(${seconds.toFixed(1)}s total)`
+      ));
+    }
+
     if (this.options.enableGraph && this.stats.graphNodesCreated) {
       console.log(chalk.magenta(`\nKnowledge Graph:`));
       console.log(chalk.magenta(`  - Nodes: ${this.stats.graphNodesCreated}`));
-      console.log(chalk.magenta(`  - Edges: ~${this.stats.graphEdgesCreated} (estimated)`));
+      console.log(chalk.magenta(`  - Edges: ${this.stats.graphEdgesCreated}`));
+      if (this.stats.graphDegrees) {
+        const { min, median, p90, max, mean, isolated } = this.stats.graphDegrees;
+        console.log(chalk.magenta(
+          `  - Edges per chunk: min ${min}, median ${median}, p90 ${p90}, max ${max} (mean ${mean.toFixed(1)})`
+        ));
+        console.log(chalk.magenta(`  - Chunks without edges: ${isolated}`));
+      }
+      if (this.stats.graphStructuralEdges) {
+        const { contains, imports, references } = this.stats.graphStructuralEdges;
+        console.log(chalk.magenta(
+          `  - Structural edges: ${contains} contains, ${imports} imports, ${references} references`
+        ));
+      }
+    }
+
+    this.stats.retries = this.embeddingClient.getRetryCount();
+    if (this.stats.retries > 0) {
+      console.log(chalk.yellow(`- Requests retried: ${this.stats.retries}`));
     }
 
     if (this.stats.errors > 0) {
       console.log(chalk.red(`✗ Errors: ${this.stats.errors}`));
     }
 
+    const failedCount = this.stateManager.getFailedFiles().length;
+    if (failedCount > 0) {
+      console.log(chalk.red(`✗ Failed files: ${failedCount} (retried first on the next run)`));
+    }
+
     if (this.stats.warnings.length > 0) {
       console.log(chalk.yellow(`\nWarnings:`));
       this.stats.warnings.forEach((warning) => {
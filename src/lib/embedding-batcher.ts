@@ -0,0 +1,187 @@
+import { EmbeddingClient, estimateTokens, isRetryable } from "./embedding-client.js";
+
+export interface BatchLimits {
+  maxChunks: number; // Chunks per embedding request
+  maxTokens: number; // Estimated tokens per embedding request
+}
+
+export interface BatcherStats {
+  requests: number;
+  chunks: number;
+  elapsedMs: number; // Time spent waiting on embedding requests
+}
+
+interface QueuedItem<T> {
+  item: T;
+  texts: string[];
+  embeddings: number[][];
+  next: number; // Index of the first text not yet sent
+}
+
+/**
+ * EmbeddingBatcher packs chunks from many files into embedding requests.
+ *
+ * Items (files) are added with their chunk texts. Whenever the queued chunks
+ * fill a request (by chunk count or estimated tokens), the request is sent and
+ * its vectors are handed back to their items; an item completes once all of
+ * its chunks are embedded. A file may span several requests, and a request may
+ * hold chunks from many files.
+ *
+ * Requests are sent one at a time, in the order chunks were added. If a request
+ * for several items is rejected (e.g., a 400 for one oversized chunk), each
+ * item's chunks are re-sent on their own so only the item at fault fails.
+ */
+export class EmbeddingBatcher<T> {
+  private client: EmbeddingClient;
+  private limits: BatchLimits;
+  private onComplete: (item: T, embeddings: number[][]) => Promise<void>;
+  private onError: (item: T, error: unknown) => void;
+  private queue: QueuedItem<T>[] = [];
+  private queuedChunks: number = 0;
+  private queuedTokens: number = 0;
+  private stats: BatcherStats = { requests: 0, chunks: 0, elapsedMs: 0 };
+
+  constructor(
+    client: EmbeddingClient,
+    limits: BatchLimits,
+    onComplete: (item: T, embeddings: number[][]) => Promise<void>,
+    onError: (item: T, error: unknown) => void
+  ) {
+    this.client = client;
+    this.limits = limits;
+    this.onComplete = onComplete;
+    this.onError = onError;
+  }
+
+  /**
+   * Queue an item's chunks, sending requests while a full one is queued
+   */
+  public async add(item: T, texts: string[]): Promise<void> {
+    this.queue.push({ item, texts, embeddings: [], next: 0 });
+    this.queuedChunks += texts.length;
+    this.queuedTokens += estimateTokens(texts);
+
+    while (this.queuedChunks >= this.limits.maxChunks || this.queuedTokens >= this.limits.maxTokens) {
+      await this.sendRequest();
+    }
+  }
+
+  /**
+   * Send everything still queued
+   */
+  public async flush(): Promise<void> {
+    while (this.queue.length > 0) {
+      await this.sendRequest();
+    }
+  }
+
+  /**
+   * Number of items waiting for (some of) their embeddings
+   */
+  public getPendingCount(): number {
+    return this.queue.length;
+  }
+
+  public getStats(): BatcherStats {
+    return { ...this.stats };
+  }
+
+  private async sendRequest(): Promise<void> {
+    // Take chunks from the front of the queue up to the limits (at least one chunk)
+    const texts: string[] = [];
+    const owners: QueuedItem<T>[] = [];
+    let tokens = 0;
+
+    for (const queued of this.queue) {
+      while (queued.next < queued.texts.length && texts.length < this.limits.maxChunks) {
+        const text = queued.texts[queued.next]!;
+        const textTokens = estimateTokens([text]);
+        if (texts.length > 0 && tokens + textTokens > this.limits.maxTokens) {
+          break;
+        }
+        texts.push(text);
+        owners.push(queued);
+        tokens += textTokens;
+        queued.next++;
+      }
+      if (queued.next < queued.texts.length) {
+        break; // Request is full
+      }
+    }
+
+    if (texts.length === 0) {
+      // Only items without chunks are left
+      await this.completeFinished();
+      return;
+    }
+
+    this.queuedChunks -= texts.length;
+    this.queuedTokens -= tokens;
+
+    try {
+      const embeddings = await this.embed(texts);
+      embeddings.forEach((embedding, i) => owners[i]!.embeddings.push(embedding));
+    } catch (error) {
+      const items = [...new Set(owners)];
+      if (items.length === 1 || isRetryable(error)) {
+        this.failItems(items, error);
+      } else {
+        // One bad input (e.g., too long for the model) shouldn't fail every file
+        // in the request: re-send each file's chunks on their own. Retryable
+        // failures already went through the client's retries, so they fail as is.
+        await this.embedSeparately(texts, owners, items);
+      }
+    }
+
+    await this.completeFinished();
+  }
+
+  private async embedSeparately(texts: string[], owners: QueuedItem<T>[], items: QueuedItem<T>[]): Promise<void> {
+    for (const queued of items) {
+      const own = texts.filter((_text, i) => owners[i] === queued);
+      try {
+        queued.embeddings.push(...(await this.embed(own)));
+      } catch (error) {
+        this.failItems([queued], error);
+      }
+    }
+  }
+
+  private async embed(texts: string[]): Promise<number[][]> {
+    const started = Date.now();
+    try {
+      const embeddings = await this.client.embedMany(texts);
+      if (embeddings.length !== texts.length) {
+        throw new Error(`Expected ${texts.length} embeddings but received ${embeddings.length}`);
+      }
+      this.stats.chunks += texts.length;
+      return embeddings;
+    } finally {
+      this.stats.requests++;
+      this.stats.elapsedMs += Date.now() - started;
+    }
+  }
+
+  /**
+   * Hand finished items at the front of the queue to onComplete, in order
+   */
+  private async completeFinished(): Promise<void> {
+    while (this.queue.length > 0 && this.queue[0]!.embeddings.length === this.queue[0]!.texts.length) {
+      const { item, embeddings } = this.queue.shift()!;
+      await this.onComplete(item, embeddings);
+    }
+  }
+
+  /**
+   * Drop failed items, including chunks of theirs that were not sent yet
+   */
+  private failItems(failed: QueuedItem<T>[], error: unknown): void {
+    for (const queued of failed) {
+      const unsent = queued.texts.slice(queued.next);
+      this.queuedChunks -= unsent.length;
+      this.queuedTokens -= estimateTokens(unsent);
+      this.onError(queued.item, error);
+    }
+    this.queue = this.queue.filter((queued) => !failed.includes(queued));
+  }
+}
@@ -0,0 +1,211 @@
+import { APICallError } from "ai";
+import type { EmbeddingProvider, RequestPolicy } from "../types/index.js";
+
+const MAX_RETRY_DELAY_MS = 60000; // Upper bound for backoff and Retry-After waits
+const CIRCUIT_RESET_MS = 30000; // How long an open circuit rejects requests before a trial request
+const CHARS_PER_TOKEN = 4; // Rough token estimate, no tokenizer needed
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  maxRetries: 3,
+  retryDelay: 1000,
+  requestTimeout: 120000,
+  circuitBreakerThreshold: 5,
+};
+
+/**
+ * EmbeddingClient sends embedding requests with retries, rate limiting and a circuit breaker.
+ *
+ * - Timeouts, 408/429/5xx responses and connection errors are retried with
+ *   exponential backoff and jitter (Retry-After is honored when present)
+ * - Requests wait for the requests-per-second and tokens-per-minute budgets,
+ *   which are shared by every caller of the client
+ * - After circuitBreakerThreshold consecutive requests fail, the circuit opens
+ *   and requests are rejected without being sent until CIRCUIT_RESET_MS passes
+ */
+export class EmbeddingClient {
+  private provider: EmbeddingProvider;
+  private policy: RequestPolicy;
+  private limiter: RateLimiter;
+  private consecutiveFailures: number = 0;
+  private circuitOpenedAt: number | null = null;
+  private retryCount: number = 0;
+
+  constructor(provider: EmbeddingProvider, policy: Partial<RequestPolicy> = {}) {
+    this.provider = provider;
+    this.policy = { ...DEFAULT_REQUEST_POLICY, ...policy };
+    this.limiter = new RateLimiter(this.policy.requestsPerSecond, this.policy.tokensPerMinute);
+  }
+
+  /**
+   * Embed a batch of texts
+   * @returns One embedding per text, in order
+   */
+  public async embedMany(values: string[]): Promise<number[][]> {
+    return this.request(estimateTokens(values), (abortSignal) => this.provider.embedMany(values, abortSignal));
+  }
+
+  public async embed(value: string): Promise<number[]> {
+    const [embedding] = await this.embedMany([value]);
+    if (!embedding) {
+      throw new Error("Provider returned no embedding");
+    }
+    return embedding;
+  }
+
+  /**
+   * True while the endpoint is considered down
+   */
+  public isCircuitOpen(): boolean {
+    return this.circuitOpenedAt !== null && Date.now() - this.circuitOpenedAt < CIRCUIT_RESET_MS;
+  }
+
+  /**
+   * Number of retried requests since the last resetRetryCount()
+   */
+  public getRetryCount(): number {
+    return this.retryCount;
+  }
+
+  public resetRetryCount(): void {
+    this.retryCount = 0;
+  }
+
+  private async request<T>(tokens: number, send: (abortSignal: AbortSignal) => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      if (this.isCircuitOpen()) {
+        throw new Error(
+          `Embedding endpoint unavailable: ${this.consecutiveFailures} consecutive requests failed`
+        );
+      }
+
+      await this.limiter.acquire(tokens);
+
+      try {
+        const result = await send(AbortSignal.timeout(this.policy.requestTimeout));
+        this.consecutiveFailures = 0;
+        this.circuitOpenedAt = null;
+        return result;
+      } catch (error) {
+        if (!isRetryable(error)) {
+          throw error; // e.g. 400 for an oversized input: the endpoint itself is fine
+        }
+
+        if (attempt >= this.policy.maxRetries) {
+          this.recordFailure();
+          throw error;
+        }
+
+        this.retryCount++;
+        await sleep(this.getRetryDelay(error, attempt));
+      }
+    }
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures >= this.policy.circuitBreakerThreshold) {
+      this.circuitOpenedAt = Date.now();
+    }
+  }
+
+  /**
+   * Exponential backoff with equal jitter, or the server's Retry-After when it asks for longer
+   */
+  private getRetryDelay(error: unknown, attempt: number): number {
+    const backoff = Math.min(MAX_RETRY_DELAY_MS, this.policy.retryDelay * 2 ** attempt);
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+    return Math.max(delay, getRetryAfter(error));
+  }
+}
+
+/**
+ * Token buckets for requests per second and tokens per minute
+ * Callers are served in order, so a large request can't be starved by small ones.
+ * A request larger than the token bucket waits for a full bucket and then
+ * overdraws it, delaying the requests after it.
+ */
+class RateLimiter {
+  private requests: TokenBucket | null;
+  private tokens: TokenBucket | null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(requestsPerSecond?: number, tokensPerMinute?: number) {
+    this.requests = requestsPerSecond ? new TokenBucket(requestsPerSecond, 1000) : null;
+    this.tokens = tokensPerMinute ? new TokenBucket(tokensPerMinute, 60000) : null;
+  }
+
+  public acquire(tokens: number): Promise<void> {
+    const turn = this.queue.then(async () => {
+      await this.requests?.take(1);
+      await this.tokens?.take(tokens);
+    });
+    this.queue = turn;
+    return turn;
+  }
+}
+
+class TokenBucket {
+  private capacity: number;
+  private ratePerMs: number;
+  private available: number;
+  private updatedAt: number = Date.now();
+
+  constructor(perPeriod: number, periodMs: number) {
+    this.capacity = perPeriod;
+    this.ratePerMs = perPeriod / periodMs;
+    this.available = perPeriod;
+  }
+
+  public async take(amount: number): Promise<void> {
+    const needed = Math.min(amount, this.capacity);
+    this.refill();
+
+    if (this.available < needed) {
+      await sleep((needed - this.available) / this.ratePerMs);
+      this.refill();
+    }
+
+    this.available -= amount;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.available = Math.min(this.capacity, this.available + (now - this.updatedAt) * this.ratePerMs);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Timeouts, connection errors and 408/409/429/5xx responses are worth retrying
+ */
+export function isRetryable(error: unknown): boolean {
+  if (APICallError.isInstance(error)) {
+    return error.isRetryable;
+  }
+  return error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError");
+}
+
+/**
+ * Delay requested by a Retry-After header in ms, or 0
+ */
+function getRetryAfter(error: unknown): number {
+  const header = APICallError.isInstance(error) ? error.responseHeaders?.["retry-after"] : undefined;
+  if (!header) {
+    return 0;
+  }
+
+  const seconds = Number(header);
+  const delay = isNaN(seconds) ? Date.parse(header) - Date.now() : seconds * 1000;
+  return isNaN(delay) ? 0 : Math.min(MAX_RETRY_DELAY_MS, Math.max(0, delay));
+}
+
+/**
+ * Estimate the tokens in a set of texts (rounded up per text, so totals add up)
+ */
+export function estimateTokens(values: string[]): number {
+  return values.reduce((total, value) => total + Math.ceil(value.length / CHARS_PER_TOKEN), 0);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,255 @@
+import { embedMany, APICallError } from "ai";
+import { createOpenAI } from "@ai-sdk/openai";
+import * as crypto from "crypto";
+import type { EmbeddingProvider, EmbeddingProviderName, ProviderOptions } from "../types/index.js";
+
+// Endpoint used when --base-url is not given
+export const DEFAULT_BASE_URLS: Record<EmbeddingProviderName, string> = {
+  openai: "", // None: --base-url is required, so source is never sent to a hosted API by default
+  ollama: "http://localhost:11434",
+  transformers: "", // Runs in-process
+  fake: "", // Hash-based, no model at all
+};
+
+export const PROVIDER_NAMES = Object.keys(DEFAULT_BASE_URLS) as EmbeddingProviderName[];
+
+const OPENAI_HOSTED_URL = "https://api.openai.com/v1";
+
+const DEFAULT_FAKE_DIMENSION = 384; // Fake provider vector length when --dimensions is not given
+
+// Optional dependency, only loaded for --provider transformers
+const TRANSFORMERS_PACKAGE = "@huggingface/transformers";
+
+/**
+ * The part of @huggingface/transformers used here, since the package may not be installed
+ */
+interface TransformersModule {
+  pipeline(task: "feature-extraction", model: string): Promise<FeatureExtractor>;
+}
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: "mean"; normalize: boolean }
+) => Promise<{ tolist(): number[][] }>; // Output tensor of shape [texts, dimension]
+
+/**
+ * Create the embedding provider selected with --provider
+ */
+export function createEmbeddingProvider(options: ProviderOptions): EmbeddingProvider {
+  const name = options.provider ?? "openai";
+  const baseUrl = options.baseUrl || DEFAULT_BASE_URLS[name];
+
+  switch (name) {
+    case "openai":
+      if (!baseUrl) {
+        throw new Error(
+          `--base-url is required for --provider openai\n\n` +
+          `Suggestions:\n` +
+          `  • Pass your server's URL, e.g. --base-url http://localhost:1234/v1 for LM Studio\n` +
+          `  • Pass --base-url ${OPENAI_HOSTED_URL} to use OpenAI's hosted API`
+        );
+      }
+      return new OpenAIProvider(baseUrl, options.model, options.apiKeyEnv);
+    case "ollama":
+      return new OllamaProvider(baseUrl, options.model);
+    case "transformers":
+      return new TransformersProvider(options.model);
+    case "fake":
+      return new HashProvider(options.dimension ?? DEFAULT_FAKE_DIMENSION);
+    default:
+      throw new Error(`Invalid provider: ${name}. Valid providers: ${PROVIDER_NAMES.join(", ")}`);
+  }
+}
+
+/**
+ * OpenAI-compatible /embeddings API (OpenAI, LM Studio, vLLM, LocalAI, ...)
+ * The API key is only read from the variable named by --api-key-env; local servers work without one.
+ */
+class OpenAIProvider implements EmbeddingProvider {
+  public readonly name = "openai";
+  public readonly baseUrl: string;
+  private provider: ReturnType<typeof createOpenAI>;
+  private model: string;
+
+  constructor(baseUrl: string, model: string, apiKeyEnv?: string) {
+    const apiKey = apiKeyEnv ? process.env[apiKeyEnv] : undefined;
+    if (apiKeyEnv && !apiKey) {
+      throw new Error(
+        `Environment variable ${apiKeyEnv} is not set\n\n` +
+        `Suggestions:\n` +
+        `  • export ${apiKeyEnv}=<your API key>\n` +
+        `  • Omit --api-key-env for servers that don't need a key (e.g., LM Studio)`
+      );
+    }
+
+    this.baseUrl = baseUrl;
+    this.model = model;
+    this.provider = createOpenAI({
+      apiKey: apiKey || "not-needed", // LM Studio doesn't require an API key
+      baseURL: baseUrl,
+    });
+  }
+
+  public async embedMany(values: string[], abortSignal?: AbortSignal): Promise<number[][]> {
+    const { embeddings } = await embedMany({
+      model: this.provider.embedding(this.model),
+      values,
+      maxRetries: 0, // Retries are handled by EmbeddingClient
+      ...(abortSignal && { abortSignal }),
+    });
+    return embeddings;
+  }
+}
+
+/**
+ * Ollama's native /api/embed endpoint
+ * HTTP and connection errors are raised as APICallError, so they are
+ * retried like the OpenAI provider's.
+ */
+class OllamaProvider implements EmbeddingProvider {
+  public readonly name = "ollama";
+  public readonly baseUrl: string;
+  private model: string;
+
+  constructor(baseUrl: string, model: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.model = model;
+  }
+
+  public async embedMany(values: string[], abortSignal?: AbortSignal): Promise<number[][]> {
+    const url = `${this.baseUrl}/api/embed`;
+    const body = { model: this.model, input: values };
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+        ...(abortSignal && { signal: abortSignal }),
+      });
+    } catch (error) {
+      if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+        throw error;
+      }
+      throw new APICallError({
+        message: `Cannot connect to Ollama at ${this.baseUrl}: ${error instanceof Error ? error.message : String(error)}`,
+        url,
+        requestBodyValues: body,
+        cause: error,
+        isRetryable: true,
+      });
+    }
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new APICallError({
+        message: parseOllamaError(text) ?? `${response.status} ${response.statusText}`,
+        url,
+        requestBodyValues: body,
+        statusCode: response.status,
+        responseHeaders: Object.fromEntries(response.headers.entries()),
+        responseBody: text,
+      });
+    }
+
+    const { embeddings } = JSON.parse(text) as { embeddings?: number[][] };
+    if (!Array.isArray(embeddings)) {
+      throw new Error(`Unexpected response from ${url}: missing 'embeddings'`);
+    }
+    return embeddings;
+  }
+}
+
+/**
+ * In-process ONNX model via transformers.js (e.g., Xenova/all-MiniLM-L6-v2)
+ * The model is downloaded to the transformers.js cache on first use.
+ * Embeddings are mean-pooled and normalized.
+ */
+class TransformersProvider implements EmbeddingProvider {
+  public readonly name = "transformers";
+  public readonly baseUrl = "";
+  private model: string;
+  private extractor: Promise<FeatureExtractor> | null = null;
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  public async embedMany(values: string[]): Promise<number[][]> {
+    const extractor = await this.loadExtractor();
+    const output = await extractor(values, { pooling: "mean", normalize: true });
+    return output.tolist();
+  }
+
+  private loadExtractor(): Promise<FeatureExtractor> {
+    this.extractor ??= (async () => {
+      let transformers: TransformersModule;
+      try {
+        transformers = await import(TRANSFORMERS_PACKAGE) as TransformersModule;
+      } catch (error) {
+        throw new Error(
+          `--provider transformers requires the optional ${TRANSFORMERS_PACKAGE} package\n\n` +
+          `Suggestions:\n` +
+          `  • Install it: npm install ${TRANSFORMERS_PACKAGE}\n` +
+          `  • Use --provider openai or --provider ollama with a running server`
+        );
+      }
+      return transformers.pipeline("feature-extraction", this.model);
+    })();
+
+    // Let a failed load be retried on the next call
+    this.extractor.catch(() => {
+      this.extractor = null;
+    });
+    return this.extractor;
+  }
+}
+
+/**
+ * Deterministic offline embeddings for tests and dry runs
+ * Each word is hashed into one of `dimension` buckets with a +1/-1 sign
+ * (feature hashing), and the result is normalized. Identical texts get
+ * identical vectors and texts sharing words point in similar directions,
+ * but the vectors carry no real meaning. The model name is ignored.
+ */
+class HashProvider implements EmbeddingProvider {
+  public readonly name = "fake";
+  public readonly baseUrl = "";
+  private dimension: number;
+
+  constructor(dimension: number) {
+    this.dimension = dimension;
+  }
+
+  public async embedMany(values: string[]): Promise<number[][]> {
+    return values.map((value) => this.embedText(value));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+
+    for (const word of words) {
+      const hash = crypto.createHash("sha256").update(word).digest();
+      const bucket = hash.readUInt32BE(0) % this.dimension;
+      vector[bucket]! += hash[4]! & 1 ? 1 : -1;
+    }
+
+    const norm = Math.hypot(...vector);
+    if (norm === 0) {
+      vector[0] = 1; // Empty or all-cancelling text still gets a unit vector
+      return vector;
+    }
+    return vector.map((component) => component / norm);
+  }
+}
+
+function parseOllamaError(body: string): string | null {
+  try {
+    const parsed = JSON.parse(body) as { error?: string };
+    return parsed.error ?? null;
+  } catch (error) {
+    return null;
+  }
+}
@@ -2,6 +2,7 @@ import * as fs from "fs";
 import * as path from "path";
 import ignore from "ignore";
 import type { Ignore } from "ignore";
+import type { ExcludedPath } from "../types/index.js";
 
 const BINARY_EXTENSIONS = new Set([
   ".png",
@@ -47,20 +48,27 @@ export class FileDiscovery {
     this.rootDir = rootDir;
     this.ig = ignore();
 
+    // Patterns are added one by one with their source, so dry runs can tell
+    // which rule excluded a path
+
     // Load .gitignore if it exists
     const gitignorePath = path.join(rootDir, ".gitignore");
     if (fs.existsSync(gitignorePath)) {
       const gitignoreContent = fs.readFileSync(gitignorePath, "utf-8");
-      this.ig.add(gitignoreContent);
+      gitignoreContent.split(/\r?\n/).forEach((pattern, i) => {
+        this.ig.add({ pattern, mark: `.gitignore:${i + 1}` });
+      });
     }
 
     // Add additional patterns
-    if (additionalPatterns.length > 0) {
-      this.ig.add(additionalPatterns);
+    for (const pattern of additionalPatterns) {
+      this.ig.add({ pattern, mark: "--ignore" });
     }
 
     // Always ignore .git directory and common build/dependency directories
-    this.ig.add([".git", "node_modules", ".next", "dist", "build", ".turbo"]);
+    for (const pattern of [".git", "node_modules", ".next", "dist", "build", ".turbo"]) {
+      this.ig.add({ pattern, mark: "built-in" });
+    }
   }
 
   private isBinaryFile(filePath: string): boolean {
@@ -93,7 +101,10 @@ export class FileDiscovery {
     }
   }
 
-  private *walkDirectory(dir: string): Generator<string> {
+  /**
+   * @param onExcluded - Called for every ignored file or directory (directories are not descended into)
+   */
+  private *walkDirectory(dir: string, onExcluded?: (excluded: ExcludedPath) => void): Generator<string> {
     const entries = fs.readdirSync(dir, { withFileTypes: true });
 
     for (const entry of entries) {
@@ -102,21 +113,59 @@ export class FileDiscovery {
 
       // Skip if ignored by gitignore or additional patterns
       if (this.ig.ignores(relativePath)) {
+        if (onExcluded) {
+          const rule = this.ig.test(relativePath).rule;
+          onExcluded({
+            path: entry.isDirectory() ? relativePath + "/" : relativePath,
+            pattern: rule?.pattern ?? "",
+            source: rule?.mark ?? "",
+          });
+        }
         continue;
       }
 
       if (entry.isDirectory()) {
-        yield* this.walkDirectory(fullPath);
+        yield* this.walkDirectory(fullPath, onExcluded);
       } else if (entry.isFile()) {
         yield fullPath;
       }
     }
   }
 
-  public discoverFiles(): string[] {
+  /**
+   * Check whether a path is excluded by .gitignore, --ignore or the built-in patterns
+   */
+  public isIgnored(filePath: string): boolean {
+    const relativePath = path.relative(this.rootDir, filePath);
+    if (!relativePath || relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+      return true; // Outside the root directory
+    }
+    return this.ig.ignores(relativePath);
+  }
+
+  /**
+   * Check whether a single file would be picked up by discoverFiles()
+   */
+  public shouldIndex(filePath: string): boolean {
+    if (this.isIgnored(filePath)) {
+      return false;
+    }
+
+    try {
+      return fs.statSync(filePath).isFile() && this.isTextFile(filePath);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Discover text files under the root directory
+   * @param startDir - Only walk this subdirectory of the root (defaults to the root)
+   */
+  public discoverFiles(startDir: string = this.rootDir): string[] {
     const files: string[] = [];
 
-    for (const file of this.walkDirectory(this.rootDir)) {
+    for (const file of this.walkDirectory(startDir)) {
       if (this.isTextFile(file)) {
         files.push(file);
       }
@@ -125,6 +174,22 @@ export class FileDiscovery {
     return files;
   }
 
+  /**
+   * Discover text files, also reporting which ignore rule excluded which paths
+   */
+  public discoverFilesWithExclusions(): { files: string[]; excluded: ExcludedPath[] } {
+    const files: string[] = [];
+    const excluded: ExcludedPath[] = [];
+
+    for (const file of this.walkDirectory(this.rootDir, (exclusion) => excluded.push(exclusion))) {
+      if (this.isTextFile(file)) {
+        files.push(file);
+      }
+    }
+
+    return { files, excluded };
+  }
+
   public readFileContent(filePath: string): string {
     return fs.readFileSync(filePath, "utf-8");
   }
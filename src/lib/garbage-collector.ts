@@ -0,0 +1,97 @@
+import { LanceVectorStore } from "@mastra/lance";
+import type { GcOptions, GcResult } from "../types/index.js";
+import { StateManager } from "./state-manager.js";
+import { GraphStore } from "./graph-store.js";
+import { countRowsBySource } from "./table-scan.js";
+import * as fs from "fs";
+
+/**
+ * GarbageCollector removes chunks whose source file no longer exists.
+ *
+ * Sources are collected from the LanceDB table, the state file and the graph
+ * store, so orphans left behind by any of them (e.g., by a run that was
+ * interrupted, or a file deleted while indexing with a different mode) are
+ * found. Source paths are stored as they were given at index time, so gc must
+ * run from the same working directory as the indexer.
+ */
+export class GarbageCollector {
+  private options: GcOptions;
+
+  constructor(options: GcOptions) {
+    this.options = options;
+  }
+
+  public async run(): Promise<GcResult> {
+    if (!fs.existsSync(this.options.output)) {
+      throw new Error(
+        `Index not found at ${this.options.output}\n\n` +
+        `Suggestions:\n` +
+        `  • Check the --output path`
+      );
+    }
+
+    const stateManager = new StateManager(this.options.output);
+    const vectorStore = await LanceVectorStore.create(this.options.output);
+    const tables = await vectorStore.listTables();
+    const tableExists = tables.includes(this.options.tableName);
+    const graphStore = GraphStore.exists(this.options.output) ? new GraphStore(this.options.output, this.options.dryRun) : null;
+
+    const vectorSources = new Set(
+      tableExists ? (await countRowsBySource(vectorStore, this.options.tableName)).keys() : []
+    );
+    const stateSources = new Set(stateManager.getProcessedFiles());
+    const graphSources = new Set(graphStore?.getSources() ?? []);
+
+    const sources = new Set([...vectorSources, ...stateSources, ...graphSources]);
+    const orphans = [...sources].filter((source) => !fs.existsSync(source)).sort();
+
+    const result: GcResult = {
+      sourcesChecked: sources.size,
+      orphans,
+      vectorsRemoved: 0,
+      stateEntriesRemoved: 0,
+      graphSourcesRemoved: 0,
+    };
+
+    if (orphans.length === 0 || this.options.dryRun) {
+      return result;
+    }
+
+    // Relative sources resolve against the working directory; from anywhere else every file looks deleted
+    if (orphans.length === sources.size && !this.options.force) {
+      throw new Error(
+        `None of the ${sources.size} indexed file(s) exist, refusing to empty the index\n` +
+        `Example source: ${orphans[0]}\n\n` +
+        `Suggestions:\n` +
+        `  • Run gc from the directory the indexer was run from\n` +
+        `  • Use --dry-run to list what would be removed\n` +
+        `  • Use --force if the files really were all deleted`
+      );
+    }
+
+    for (const source of orphans) {
+      if (vectorSources.has(source)) {
+        await vectorStore.deleteVectors({
+          indexName: this.options.tableName, // In deleteVectors, indexName refers to the table name
+          filter: { source },
+        });
+        result.vectorsRemoved++;
+      }
+
+      if (stateSources.has(source)) {
+        stateManager.removeFile(source);
+        result.stateEntriesRemoved++;
+      }
+
+      if (graphSources.has(source)) {
+        graphStore!.removeChunksBySource(source);
+        result.graphSourcesRemoved++;
+      }
+    }
+
+    stateManager.saveState();
+    graphStore?.save();
+
+    return result;
+  }
+}
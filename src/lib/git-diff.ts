@@ -1,5 +1,7 @@
 import { execSync } from "child_process";
 import * as path from "path";
+import * as fs from "fs";
+import { FileDiscovery } from "./file-discovery.js";
 
 export interface GitDiffResult {
   added: string[];
@@ -53,9 +55,23 @@ export function getCurrentCommitHash(dir: string): string | null {
  * @param dir - Repository directory path
  * @param fromCommit - Starting commit hash
  * @param toCommit - Ending commit hash (defaults to HEAD if not provided)
+ * @param options - includeWorkingTree merges staged, unstaged and untracked changes on top,
+ *   with untracked files filtered by fileDiscovery
  * @returns Object containing arrays of added, modified, deleted, and renamed files
  */
 export function getChangedFiles(
+  dir: string,
+  fromCommit: string,
+  toCommit?: string,
+  options: { includeWorkingTree?: boolean; fileDiscovery?: FileDiscovery } = {}
+): GitDiffResult {
+  const committed = getCommittedChanges(dir, fromCommit, toCommit);
+  return options.includeWorkingTree
+    ? mergeDiffResults(committed, getWorkingTreeChanges(dir, options.fileDiscovery))
+    : committed;
+}
+
+function getCommittedChanges(
   dir: string,
   fromCommit: string,
   toCommit?: string
@@ -169,6 +185,122 @@ export function getChangedFiles(
   }
 }
 
+/**
+ * Get uncommitted changes (staged, unstaged and untracked) under dir relative to HEAD
+ * Ignored files are not included, and untracked files must also pass the
+ * rules a full run discovers files with. Each path is classified by whether it
+ * exists on disk, since that is what the indexer reads.
+ * @param dir - Repository directory path (may be a subdirectory of the repository)
+ * @param fileDiscovery - Rules for untracked files (defaults to the built-in ignores and binary filtering)
+ * @returns Object containing arrays of added, modified, deleted, and renamed files
+ */
+export function getWorkingTreeChanges(
+  dir: string,
+  fileDiscovery: FileDiscovery = new FileDiscovery(dir)
+): GitDiffResult {
+  const result: GitDiffResult = {
+    added: [],
+    modified: [],
+    deleted: [],
+    renamed: [],
+  };
+
+  try {
+    // Porcelain paths are relative to the repository root, not to dir
+    const prefix = execSync(`git -C "${dir}" rev-parse --show-prefix`, {
+      stdio: "pipe",
+      encoding: "utf-8",
+    }).trim();
+    const toPath = (repoPath: string) => path.join(dir, path.relative(prefix, repoPath));
+
+    // -z keeps paths unquoted; renames are "XY new\0old\0"
+    const output = execSync(
+      `git -C "${dir}" status --porcelain -z --untracked-files=all -- .`,
+      {
+        stdio: "pipe",
+        encoding: "utf-8",
+      }
+    );
+
+    const entries = output.split("\0");
+
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i]!;
+      if (entry.length < 4) continue;
+
+      const status = entry.substring(0, 2);
+      const filePath = toPath(entry.substring(3));
+
+      if (status[0] === "R") {
+        const from = entries[++i];
+        if (from) {
+          result.renamed.push({ from: toPath(from), to: filePath });
+        }
+        continue;
+      }
+
+      if (status === "??" && !fileDiscovery.shouldIndex(filePath)) {
+        continue;
+      }
+
+      if (!fs.existsSync(filePath)) {
+        result.deleted.push(filePath);
+      } else if (status === "??" || status[0] === "A" || status[0] === "C") {
+        result.added.push(filePath);
+      } else {
+        result.modified.push(filePath);
+      }
+    }
+  } catch (error) {
+    // If git status fails, report no working tree changes
+  }
+
+  return result;
+}
+
+/**
+ * Merge two diff results, letting the overlay win for paths present in both
+ * e.g., a file modified by a commit and then deleted in the working tree ends up deleted.
+ */
+export function mergeDiffResults(base: GitDiffResult, overlay: GitDiffResult): GitDiffResult {
+  const statuses = new Map<string, "added" | "modified" | "deleted">();
+
+  for (const diff of [base, overlay]) {
+    for (const status of ["added", "modified", "deleted"] as const) {
+      for (const filePath of diff[status]) {
+        // A file added by a commit and edited afterwards is still new to the index
+        const previous = statuses.get(filePath);
+        statuses.set(filePath, previous === "added" && status === "modified" ? "added" : status);
+      }
+    }
+  }
+
+  const result: GitDiffResult = {
+    added: [],
+    modified: [],
+    deleted: [],
+    renamed: [...base.renamed, ...overlay.renamed],
+  };
+
+  for (const [filePath, status] of statuses) {
+    result[status].push(filePath);
+  }
+
+  return result;
+}
+
+/**
+ * List every path touched by a diff (both sides of renames)
+ */
+export function getDiffPaths(diff: GitDiffResult): string[] {
+  return [
+    ...diff.added,
+    ...diff.modified,
+    ...diff.deleted,
+    ...diff.renamed.flatMap(({ from, to }) => [from, to]),
+  ];
+}
+
 /**
  * Check if the repository has uncommitted changes
  * @param dir - Repository directory path
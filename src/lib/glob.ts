@@ -0,0 +1,71 @@
+/**
+ * Convert a glob pattern into a regular expression
+ * Supports `**`, `*`, `?` and `{a,b}` alternation. Patterns are matched
+ * against the end of the path, so "src/*.ts" matches "/repo/src/index.ts".
+ * @param pattern - Glob pattern (e.g., "src/**\/*.ts")
+ * @returns Regular expression that matches full paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.replace(/\\/g, "/").replace(/^(?:\*\*\/|\/)+/, "");
+
+  let regex = "";
+  let inGroup = false;
+
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i]!;
+
+    switch (char) {
+      case "*":
+        if (normalized[i + 1] === "*") {
+          // "**/" matches zero or more directories, "**" matches anything
+          if (normalized[i + 2] === "/") {
+            regex += "(?:.*/)?";
+            i += 2;
+          } else {
+            regex += ".*";
+            i += 1;
+          }
+        } else {
+          regex += "[^/]*";
+        }
+        break;
+
+      case "?":
+        regex += "[^/]";
+        break;
+
+      case "{":
+        inGroup = true;
+        regex += "(?:";
+        break;
+
+      case "}":
+        if (inGroup) {
+          inGroup = false;
+          regex += ")";
+        } else {
+          regex += "\\}";
+        }
+        break;
+
+      case ",":
+        regex += inGroup ? "|" : ",";
+        break;
+
+      default:
+        regex += /[.+^$()|[\]\\]/.test(char) ? "\\" + char : char;
+    }
+  }
+
+  return new RegExp(`^(?:.*/)?${regex}$`);
+}
+
+/**
+ * Check whether a file path matches a glob pattern
+ * @param filePath - Path to test (absolute or relative)
+ * @param pattern - Glob pattern
+ * @returns true if the path matches the pattern
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(filePath.replace(/\\/g, "/"));
+}
@@ -0,0 +1,431 @@
+import * as fs from "fs";
+import * as path from "path";
+import { once } from "events";
+import { finished } from "stream/promises";
+import type {
+  GraphEdgeType,
+  GraphExportFormat,
+  GraphExportOptions,
+  GraphExportResult,
+} from "../types/index.js";
+import { GraphStore } from "./graph-store.js";
+import { FILE_NODE_PREFIX } from "./code-structure.js";
+
+export const EXPORT_FORMATS: GraphExportFormat[] = ["graphml", "gexf", "neo4j-csv", "jsonl"];
+
+const SINK_FLUSH_CHARS = 64 * 1024; // Output is buffered up to this size between writes
+const NEO4J_NODES_FILE = "nodes.csv";
+const NEO4J_RELATIONSHIPS_FILE = "relationships.csv";
+const NEO4J_TYPES: Record<GraphEdgeType, string> = {
+  semantic: "SIMILAR_TO",
+  contains: "CONTAINS",
+  imports: "IMPORTS",
+  references: "REFERENCES",
+};
+
+interface ExportNode {
+  id: string;
+  kind: "chunk" | "file";
+  label: string;
+  source: string;
+  chunkIndex: number | null; // null for file nodes
+  preview: string;
+}
+
+interface ExportEdge {
+  source: string;
+  target: string;
+  type: GraphEdgeType;
+  weight: number; // Similarity for semantic edges, 1 for structural ones
+}
+
+/**
+ * GraphExporter writes the knowledge graph in formats other tools read:
+ * GraphML and GEXF (Gephi, yEd, NetworkX), Neo4j admin-import CSV, or JSON lines.
+ *
+ * Nodes are streamed from the chunk log and edges from edges.bin, so only the
+ * chunk ids are held in memory. All nodes are written before the first edge,
+ * as GEXF and Neo4j's importer expect.
+ */
+export class GraphExporter {
+  private options: GraphExportOptions;
+
+  constructor(options: GraphExportOptions) {
+    this.options = options;
+  }
+
+  public async run(): Promise<GraphExportResult> {
+    if (!GraphStore.exists(this.options.output)) {
+      throw new Error(
+        `No graph data found in ${this.options.output}\n\n` +
+        `Suggestions:\n` +
+        `  • Re-run the indexer with --enable-graph`
+      );
+    }
+
+    // Read-only: safe to run while an indexer holds the output lock
+    const graphStore = new GraphStore(this.options.output, true);
+    const stored = graphStore.getConfig().threshold;
+    const threshold = this.options.threshold ?? stored;
+    if (threshold < stored) {
+      throw new Error(
+        `Similarity edges are only stored above ${stored}, so --threshold ${threshold} can't be exported\n\n` +
+        `Suggestions:\n` +
+        `  • Use --threshold ${stored} or higher\n` +
+        `  • Re-index with --graph-threshold ${threshold} to store more edges`
+      );
+    }
+
+    const { writer, files } = this.createWriter();
+    const result: GraphExportResult = {
+      nodes: 0,
+      edges: 0,
+      files,
+      threshold,
+      edgesIncomplete: graphStore.needsEdges(),
+    };
+
+    try {
+      for (const chunk of graphStore.iterateChunks()) {
+        await writer.writeNode({
+          id: chunk.id,
+          kind: "chunk",
+          label: `${path.basename(chunk.source)}#${chunk.chunkIndex}`,
+          source: chunk.source,
+          chunkIndex: chunk.chunkIndex,
+          preview: formatPreview(chunk.text, this.options.previewLength),
+        });
+        result.nodes++;
+      }
+
+      if (this.options.structural) {
+        for (const source of graphStore.getSources()) {
+          await writer.writeNode({
+            id: FILE_NODE_PREFIX + source,
+            kind: "file",
+            label: path.basename(source),
+            source,
+            chunkIndex: null,
+            preview: "",
+          });
+          result.nodes++;
+        }
+      }
+
+      for (const { source, target, similarity } of graphStore.iterateEdges(threshold)) {
+        await writer.writeEdge({ source, target, type: "semantic", weight: similarity });
+        result.edges++;
+      }
+
+      if (this.options.structural) {
+        for (const [type, source, target] of graphStore.iterateStructuralEdges()) {
+          await writer.writeEdge({ source, target, type, weight: 1 });
+          result.edges++;
+        }
+      }
+    } finally {
+      await writer.close();
+    }
+
+    return result;
+  }
+
+  private createWriter(): { writer: GraphWriter; files: string[] } {
+    const { format, out } = this.options;
+
+    if (format === "neo4j-csv") {
+      if (!out) {
+        throw new Error(
+          `The neo4j-csv format writes two files and can't go to stdout\n\n` +
+          `Suggestions:\n` +
+          `  • Pass --out <directory> for ${NEO4J_NODES_FILE} and ${NEO4J_RELATIONSHIPS_FILE}`
+        );
+      }
+      fs.mkdirSync(out, { recursive: true });
+      const nodesPath = path.join(out, NEO4J_NODES_FILE);
+      const relationshipsPath = path.join(out, NEO4J_RELATIONSHIPS_FILE);
+      return {
+        writer: new Neo4jCsvWriter(OutputSink.toFile(nodesPath), OutputSink.toFile(relationshipsPath)),
+        files: [nodesPath, relationshipsPath],
+      };
+    }
+
+    if (out) {
+      fs.mkdirSync(path.dirname(path.resolve(out)), { recursive: true });
+    }
+    const sink = out ? OutputSink.toFile(out) : OutputSink.toStdout();
+    const writer = format === "graphml"
+      ? new GraphMlWriter(sink)
+      : format === "gexf"
+        ? new GexfWriter(sink)
+        : new JsonlWriter(sink);
+    return { writer, files: out ? [out] : [] };
+  }
+}
+
+interface GraphWriter {
+  writeNode(node: ExportNode): Promise<void>;
+  writeEdge(edge: ExportEdge): Promise<void>; // Only called once every node is written
+  close(): Promise<void>;
+}
+
+/**
+ * Buffered text output that waits for the stream to drain, so a slow reader
+ * (e.g., a pipe) doesn't make the whole graph pile up in memory
+ */
+class OutputSink {
+  private stream: NodeJS.WritableStream;
+  private ownsStream: boolean;
+  private buffer: string[] = [];
+  private size = 0;
+
+  private constructor(stream: NodeJS.WritableStream, ownsStream: boolean) {
+    this.stream = stream;
+    this.ownsStream = ownsStream;
+  }
+
+  public static toFile(filePath: string): OutputSink {
+    return new OutputSink(fs.createWriteStream(filePath, "utf-8"), true);
+  }
+
+  public static toStdout(): OutputSink {
+    return new OutputSink(process.stdout, false);
+  }
+
+  public async write(text: string): Promise<void> {
+    this.buffer.push(text);
+    this.size += text.length;
+    if (this.size >= SINK_FLUSH_CHARS) {
+      await this.flush();
+    }
+  }
+
+  public async close(): Promise<void> {
+    await this.flush();
+    if (this.ownsStream) {
+      this.stream.end();
+      await finished(this.stream);
+    }
+  }
+
+  private async flush(): Promise<void> {
+    if (this.size === 0) {
+      return;
+    }
+
+    const data = this.buffer.join("");
+    this.buffer = [];
+    this.size = 0;
+    if (!this.stream.write(data)) {
+      await once(this.stream, "drain");
+    }
+  }
+}
+
+class GraphMlWriter implements GraphWriter {
+  private sink: OutputSink;
+  private started = false;
+
+  constructor(sink: OutputSink) {
+    this.sink = sink;
+  }
+
+  public async writeNode(node: ExportNode): Promise<void> {
+    await this.start();
+    await this.sink.write(
+      `    <node id="${escapeXml(node.id)}">` +
+      `<data key="label">${escapeXml(node.label)}</data>` +
+      `<data key="kind">${node.kind}</data>` +
+      `<data key="source">${escapeXml(node.source)}</data>` +
+      (node.chunkIndex === null ? "" : `<data key="chunkIndex">${node.chunkIndex}</data>`) +
+      `<data key="preview">${escapeXml(node.preview)}</data>` +
+      `</node>\n`
+    );
+  }
+
+  public async writeEdge(edge: ExportEdge): Promise<void> {
+    await this.sink.write(
+      `    <edge source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">` +
+      `<data key="type">${edge.type}</data>` +
+      `<data key="weight">${edge.weight}</data>` +
+      `</edge>\n`
+    );
+  }
+
+  public async close(): Promise<void> {
+    await this.start();
+    await this.sink.write(`  </graph>\n</graphml>\n`);
+    await this.sink.close();
+  }
+
+  private async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    await this.sink.write(
+      `<?xml version="1.0" encoding="UTF-8"?>\n` +
+      `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">\n` +
+      `  <key id="label" for="node" attr.name="label" attr.type="string"/>\n` +
+      `  <key id="kind" for="node" attr.name="kind" attr.type="string"/>\n` +
+      `  <key id="source" for="node" attr.name="source" attr.type="string"/>\n` +
+      `  <key id="chunkIndex" for="node" attr.name="chunkIndex" attr.type="int"/>\n` +
+      `  <key id="preview" for="node" attr.name="preview" attr.type="string"/>\n` +
+      `  <key id="type" for="edge" attr.name="type" attr.type="string"/>\n` +
+      `  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>\n` +
+      `  <graph id="G" edgedefault="undirected">\n`
+    );
+  }
+}
+
+/**
+ * GEXF 1.3; nodes and edges sit in separate sections, opened as each kind starts
+ */
+class GexfWriter implements GraphWriter {
+  private sink: OutputSink;
+  private section: "none" | "nodes" | "edges" = "none";
+  private edgeCount = 0;
+
+  constructor(sink: OutputSink) {
+    this.sink = sink;
+  }
+
+  public async writeNode(node: ExportNode): Promise<void> {
+    await this.enter("nodes");
+    await this.sink.write(
+      `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label)}"><attvalues>` +
+      `<attvalue for="kind" value="${node.kind}"/>` +
+      `<attvalue for="source" value="${escapeXml(node.source)}"/>` +
+      (node.chunkIndex === null ? "" : `<attvalue for="chunkIndex" value="${node.chunkIndex}"/>`) +
+      `<attvalue for="preview" value="${escapeXml(node.preview)}"/>` +
+      `</attvalues></node>\n`
+    );
+  }
+
+  public async writeEdge(edge: ExportEdge): Promise<void> {
+    await this.enter("edges");
+    await this.sink.write(
+      `      <edge id="${this.edgeCount++}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" ` +
+      `weight="${edge.weight}"><attvalues><attvalue for="type" value="${edge.type}"/></attvalues></edge>\n`
+    );
+  }
+
+  public async close(): Promise<void> {
+    await this.enter("edges");
+    await this.sink.write(`    </edges>\n  </graph>\n</gexf>\n`);
+    await this.sink.close();
+  }
+
+  private async enter(section: "nodes" | "edges"): Promise<void> {
+    if (this.section === "none") {
+      await this.sink.write(
+        `<?xml version="1.0" encoding="UTF-8"?>\n` +
+        `<gexf xmlns="http://gexf.net/1.3" version="1.3">\n` +
+        `  <graph defaultedgetype="undirected">\n` +
+        `    <attributes class="node">\n` +
+        `      <attribute id="kind" title="kind" type="string"/>\n` +
+        `      <attribute id="source" title="source" type="string"/>\n` +
+        `      <attribute id="chunkIndex" title="chunkIndex" type="integer"/>\n` +
+        `      <attribute id="preview" title="preview" type="string"/>\n` +
+        `    </attributes>\n` +
+        `    <attributes class="edge">\n` +
+        `      <attribute id="type" title="type" type="string"/>\n` +
+        `    </attributes>\n` +
+        `    <nodes>\n`
+      );
+      this.section = "nodes";
+    }
+    if (section === "edges" && this.section === "nodes") {
+      await this.sink.write(`    </nodes>\n    <edges>\n`);
+      this.section = "edges";
+    }
+  }
+}
+
+/**
+ * Header rows follow the neo4j-admin import conventions (id:ID, :LABEL, :START_ID, :END_ID, :TYPE)
+ */
+class Neo4jCsvWriter implements GraphWriter {
+  private nodes: OutputSink;
+  private relationships: OutputSink;
+  private started = false;
+
+  constructor(nodes: OutputSink, relationships: OutputSink) {
+    this.nodes = nodes;
+    this.relationships = relationships;
+  }
+
+  public async writeNode(node: ExportNode): Promise<void> {
+    await this.start();
+    await this.nodes.write(csvRow([
+      node.id,
+      node.kind === "file" ? "File" : "Chunk",
+      node.source,
+      node.chunkIndex === null ? "" : String(node.chunkIndex),
+      node.preview,
+    ]));
+  }
+
+  public async writeEdge(edge: ExportEdge): Promise<void> {
+    await this.start();
+    await this.relationships.write(csvRow([edge.source, edge.target, NEO4J_TYPES[edge.type], String(edge.weight)]));
+  }
+
+  public async close(): Promise<void> {
+    await this.start();
+    await this.nodes.close();
+    await this.relationships.close();
+  }
+
+  private async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    await this.nodes.write(csvRow(["id:ID", ":LABEL", "source", "chunkIndex:int", "preview"]));
+    await this.relationships.write(csvRow([":START_ID", ":END_ID", ":TYPE", "weight:float"]));
+  }
+}
+
+class JsonlWriter implements GraphWriter {
+  private sink: OutputSink;
+
+  constructor(sink: OutputSink) {
+    this.sink = sink;
+  }
+
+  public async writeNode(node: ExportNode): Promise<void> {
+    const { id, kind, source, chunkIndex, preview } = node;
+    await this.sink.write(JSON.stringify({ element: "node", id, kind, source, chunkIndex, preview }) + "\n");
+  }
+
+  public async writeEdge(edge: ExportEdge): Promise<void> {
+    await this.sink.write(JSON.stringify({ element: "edge", ...edge }) + "\n");
+  }
+
+  public async close(): Promise<void> {
+    await this.sink.close();
+  }
+}
+
+function formatPreview(text: string, maxLength: number): string {
+  const collapsed = text.replace(/\s+/g, " ").trim();
+  return collapsed.length > maxLength ? collapsed.substring(0, maxLength) + "…" : collapsed;
+}
+
+/**
+ * Escape text for XML attributes and content, dropping characters XML 1.0 can't hold
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function csvRow(fields: string[]): string {
+  return fields.map((field) => (/[",\n\r]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field)).join(",") + "\n";
+}
@@ -2,144 +2,259 @@ import * as fs from "fs";
 import * as path from "path";
 import { GraphRAG } from "@mastra/rag";
 import type {
+  ClusterSummary,
   GraphChunkData,
+  GraphDegreeStats,
+  GraphEdgeData,
+  GraphEdgeOptions,
+  GraphEdgeUpdate,
+  GraphEdgeWeights,
+  StructuralEdgeType,
 } from "../types/index.js";
+import { writeFileAtomic } from "./atomic-write.js";
+import {
+  buildStructuralEdges,
+  DEFAULT_EDGE_WEIGHTS,
+  FILE_NODE_PREFIX,
+  STRUCTURAL_EDGE_TYPES,
+  type StructuralEdgeRecord,
+} from "./code-structure.js";
+import { buildEdges, planEdges, type EdgeRecord } from "./edge-builder.js";
+import { VectorSet } from "./vector-set.js";
 
 const GRAPH_DIR = "graph-data";
-const CHUNKS_DIR = "chunks";
-const EMBEDDINGS_DIR = "embeddings";
 const CONFIG_FILE = "config.json";
 const INDEX_FILE = "index.json";
-const BATCH_SIZE = 1000; // Chunks per batch file
-const MAX_CACHED_BATCHES = 5; // Maximum batches to keep in memory (5000 chunks max)
+const SOURCES_FILE = "sources.json";
+const STRUCTURE_FILE = "structure.jsonl";
+const CLUSTERS_FILE = "clusters.jsonl";
+const CLUSTER_SUMMARY_FILE = "clusters.json";
+const LOG_DIR_PREFIX = "log-";
+const FORMAT_VERSION = "2.0";
+const FLUSH_SIZE = 1000; // Pending chunks written to the log before they are committed
+const READ_BLOCK_BYTES = 4 * 1024 * 1024; // Embedding column reads when building edges
+const COMPACTION_RATIO = 0.25; // Compact on save once this share of the log is removed chunks
+
+// Column files of the chunk log; row N of every column belongs to slot N
+const COLUMN_FILES = {
+  meta: "meta.jsonl", // Chunk fields except text, one JSON object per line
+  text: "text.jsonl", // [slot, text] per line
+  embeddings: "embeddings.bin", // float32 × dimension per slot, fixed width
+  tombstones: "tombstones.bin", // uint32 slot numbers of removed chunks
+  edges: "edges.bin", // [source slot: uint32, target slot: uint32, similarity: float32] per edge
+} as const;
+const EDGE_BYTES = 12;
+
+// Layout written before the chunk log (see migrateLegacy())
+const LEGACY_VERSION = "1.0";
+const LEGACY_CHUNKS_DIR = "chunks";
+const LEGACY_EMBEDDINGS_DIR = "embeddings";
+const LEGACY_JOURNAL_FILE = "journal.json";
+const LEGACY_STAGING_SUFFIX = ".tmp";
+const LEGACY_BATCH_SIZE = 1000;
+
+type LogColumn = keyof typeof COLUMN_FILES;
+type LogColumns = Record<LogColumn, number>;
 
 interface GraphConfig {
   version: string;
   dimension: number;
-  threshold: number;
+  threshold: number; // Stored edges have a similarity above this
+  topK?: number; // Edges each chunk picked when its edges were computed, unset for no cap
   createdAt: number;
   updatedAt: number;
 }
 
+/**
+ * Committed state of the chunk log
+ * Bytes past the committed column lengths are from an interrupted save and are ignored.
+ */
 interface GraphIndex {
-  chunkCount: number;
-  batchSize: number;
+  chunkCount: number; // Live chunks
+  slotCount: number; // Rows in the log, including removed chunks
+  tombstoneCount: number;
+  generation: number; // Suffix of the current log directory, bumped by compaction and clear()
+  edgeSlotCount: number; // Slots below this have had their similarity edges computed
+  columns: LogColumns; // Committed byte length of each column file
   lastUpdated: number;
-  sources?: Set<string>; // Track which source files have chunks (in-memory only)
 }
 
-interface ChunkBatch {
-  chunks: GraphChunkData[];
+/**
+ * Persisted source → slot index, valid for the log state it was written with
+ */
+interface SourcesFile {
+  generation: number;
+  slotCount: number;
+  tombstoneCount: number;
+  sources: Record<string, number[]>;
+}
+
+/**
+ * Log state a derived file was written for; like sources.json, the file is
+ * only valid while the log is still in that state
+ */
+interface LogState {
+  generation: number;
+  slotCount: number;
+  tombstoneCount: number;
+}
+
+/**
+ * First line of structure.jsonl; the edges follow, one StructuralEdgeRecord per line
+ */
+interface StructureHeader extends LogState {
+  counts: Record<StructuralEdgeType, number>;
+}
+
+/**
+ * First line of clusters.jsonl; [chunk id, cluster id] lines follow, one per clustered chunk
+ */
+interface ClustersHeader extends LogState {
+  clusterCount: number;
 }
 
+type MetaRow = Omit<GraphChunkData, "text"> & { slot: number };
+
 /**
- * GraphStore handles persistence of GraphRAG data using folder-based storage.
- * 
+ * GraphStore handles persistence of GraphRAG data as an append-only chunk log.
+ *
  * Storage structure:
  *   graph-data/
- *     config.json              - Configuration (dimension, threshold)
- *     index.json               - Metadata (chunk count, batch info)
- *     chunks/
- *       batch-0000.json        - Chunks 0-999
- *       batch-0001.json        - Chunks 1000-1999
- *     embeddings/
- *       batch-0000.bin         - Binary embeddings for chunks 0-999
- *       batch-0001.bin         - Binary embeddings for chunks 1000-1999
- * 
- * Benefits:
- * - Scalable: No single massive JSON file
- * - Efficient: Binary format for embeddings
- * - Partial loading: Load only needed batches
- * - Corruption-resistant: Issues isolated to single batch
+ *     config.json              - Configuration (format version, dimension, threshold)
+ *     index.json               - Committed slot, tombstone and column byte counts
+ *     sources.json             - Source file → slots of its live chunks
+ *     structure.jsonl          - Structural edges (containment, imports, references)
+ *     clusters.jsonl           - Cluster id of each chunk (clusters command)
+ *     clusters.json            - Cluster summaries: files, central chunks, keywords
+ *     log-0001/
+ *       meta.jsonl             - Chunk metadata, one line per slot
+ *       text.jsonl             - Chunk text, one line per slot
+ *       embeddings.bin         - Fixed-width float32 embeddings
+ *       tombstones.bin         - Slots of removed chunks
+ *       edges.bin              - Similarity edges between slots
+ *
+ * New chunks are appended as slots; removing a source appends its slots to
+ * the tombstones instead of rewriting anything. Rows are written past the
+ * committed lengths and only count once index.json (written atomically) says
+ * so, which makes index.json the commit point of every save. Once removed
+ * chunks make up COMPACTION_RATIO of the log, save() copies the live chunks
+ * into the next log-NNNN directory and switches index.json over to it.
+ *
+ * Similarity edges are stored too. updateEdges() links only the slots added
+ * since its last run; edges of removed chunks die with their tombstones.
+ * Structural edges depend on every file (imports, symbol tables), so
+ * updateStructure() rewrites them whenever the log has changed.
+ *
+ * Startup reads only index.json and sources.json; the columns are read when
+ * chunks or embeddings are requested. Data in the "1.0" layout (JSON chunk
+ * batches) is migrated on load.
  */
 export class GraphStore {
   private graphDir: string;
-  private chunksDir: string;
-  private embeddingsDir: string;
   private configPath: string;
   private indexPath: string;
-  
+  private sourcesPath: string;
+  private structurePath: string;
+  private clustersPath: string;
+  private readOnly: boolean;
+
   private config: GraphConfig;
   private index: GraphIndex;
-  
-  // In-memory cache of chunks (loaded on demand)
-  private chunksCache: Map<number, GraphChunkData[]> = new Map();
-  private embeddingsCache: Map<number, number[][]> = new Map();
-  private cacheAccessOrder: number[] = []; // Track LRU for cache eviction
-  private sourcesIndex: Set<string> = new Set(); // Fast lookup for source file existence
-
-  constructor(outputDir: string) {
+
+  // Log state including uncommitted writes; committed into index on save()
+  private generation: number;
+  private slotCount: number;
+  private tombstoneCount: number;
+  private edgeSlotCount: number;
+  private written: LogColumns;
+
+  // Buffered until the next flush (slots slotCount - pending.length .. slotCount - 1)
+  private pendingChunks: GraphChunkData[] = [];
+  private pendingEmbeddings: number[][] = [];
+  private pendingTombstones: number[] = [];
+
+  private sourcesIndex: Map<string, number[]> = new Map(); // Live slots per source file
+
+  /**
+   * @param readOnly - Never write: no folders are created, an interrupted save
+   *   is left for the next writer and "1.0" data is migrated in memory only.
+   *   For readers that may run while an indexer (holding the output lock) is writing
+   */
+  constructor(outputDir: string, readOnly: boolean = false) {
     this.graphDir = path.join(outputDir, GRAPH_DIR);
-    this.chunksDir = path.join(this.graphDir, CHUNKS_DIR);
-    this.embeddingsDir = path.join(this.graphDir, EMBEDDINGS_DIR);
     this.configPath = path.join(this.graphDir, CONFIG_FILE);
     this.indexPath = path.join(this.graphDir, INDEX_FILE);
-    
-    this.ensureDirectories();
+    this.sourcesPath = path.join(this.graphDir, SOURCES_FILE);
+    this.structurePath = path.join(this.graphDir, STRUCTURE_FILE);
+    this.clustersPath = path.join(this.graphDir, CLUSTERS_FILE);
+    this.readOnly = readOnly;
+
+    if (!readOnly) {
+      this.ensureDirectories();
+    }
     this.config = this.loadConfig();
-    this.index = this.loadIndex();
-    this.buildSourcesIndex();
+    this.index = this.config.version === LEGACY_VERSION ? this.createEmptyIndex() : this.loadIndex();
+    this.generation = this.index.generation;
+    this.slotCount = this.index.slotCount;
+    this.tombstoneCount = this.index.tombstoneCount;
+    this.edgeSlotCount = this.index.edgeSlotCount;
+    this.written = { ...this.index.columns };
+
+    if (this.config.version === LEGACY_VERSION) {
+      this.migrateLegacy();
+      return;
+    }
+
+    if (!readOnly) {
+      this.recover();
+    }
+    this.sourcesIndex = this.loadSourcesIndex();
   }
 
   /**
-   * Build index of source files that have chunks
-   * This avoids expensive lookups when checking if we need to remove chunks
+   * Check whether graph data has been persisted in an output directory
+   * Use this before constructing a GraphStore for read-only access; a
+   * read-only store of a missing graph is simply empty.
    */
-  private buildSourcesIndex(): void {
-    if (this.index.chunkCount === 0) {
-      return;
-    }
+  public static exists(outputDir: string): boolean {
+    return fs.existsSync(GraphStore.getIndexPath(outputDir));
+  }
 
-    const totalBatches = Math.ceil(this.index.chunkCount / BATCH_SIZE);
-    
-    for (let batchNum = 0; batchNum < totalBatches; batchNum++) {
-      const chunks = this.loadChunkBatch(batchNum);
-      
-      for (const chunk of chunks) {
-        this.sourcesIndex.add(chunk.source);
-      }
-      
-      // Clear cache immediately to free memory
-      this.chunksCache.delete(batchNum);
-      this.embeddingsCache.delete(batchNum);
-    }
+  /**
+   * Path of the graph index file, which is rewritten whenever the graph changes
+   */
+  public static getIndexPath(outputDir: string): string {
+    return path.join(outputDir, GRAPH_DIR, INDEX_FILE);
   }
 
   private ensureDirectories(): void {
     if (!fs.existsSync(this.graphDir)) {
       fs.mkdirSync(this.graphDir, { recursive: true });
     }
-    if (!fs.existsSync(this.chunksDir)) {
-      fs.mkdirSync(this.chunksDir, { recursive: true });
-    }
-    if (!fs.existsSync(this.embeddingsDir)) {
-      fs.mkdirSync(this.embeddingsDir, { recursive: true });
-    }
   }
 
   private loadConfig(): GraphConfig {
-    if (fs.existsSync(this.configPath)) {
-      try {
-        const content = fs.readFileSync(this.configPath, "utf-8");
-        const config = JSON.parse(content) as GraphConfig;
-        
-        if (config.version !== "1.0") {
-          console.warn(`Graph config version mismatch (${config.version}), creating fresh`);
-          return this.createEmptyConfig();
-        }
-        
-        return config;
-      } catch (error) {
-        console.warn("Failed to load graph config, creating fresh");
-        return this.createEmptyConfig();
-      }
+    if (!fs.existsSync(this.configPath)) {
+      return this.createEmptyConfig();
+    }
+
+    // Starting fresh would overwrite the graph metadata and orphan the stored chunks
+    let config: GraphConfig;
+    try {
+      config = JSON.parse(fs.readFileSync(this.configPath, "utf-8")) as GraphConfig;
+    } catch (error) {
+      throw this.loadError(this.configPath, error instanceof Error ? error.message : String(error));
     }
-    return this.createEmptyConfig();
+
+    if (config.version !== FORMAT_VERSION && config.version !== LEGACY_VERSION) {
+      throw this.loadError(this.configPath, `unsupported format version ${config.version}`);
+    }
+    return config;
   }
 
   private createEmptyConfig(): GraphConfig {
     return {
-      version: "1.0",
+      version: FORMAT_VERSION,
       dimension: 0,
       threshold: 0.7,
       createdAt: Date.now(),
@@ -151,133 +266,262 @@ export class GraphStore {
     if (fs.existsSync(this.indexPath)) {
       try {
         const content = fs.readFileSync(this.indexPath, "utf-8");
-        return JSON.parse(content) as GraphIndex;
+        const index = JSON.parse(content) as GraphIndex;
+        if (typeof index.slotCount !== "number" || !index.columns) {
+          throw new Error("Not a chunk log index");
+        }
+        // Written before edges were stored: every slot still needs its edges
+        index.edgeSlotCount ??= 0;
+        index.columns.edges ??= 0;
+        return index;
       } catch (error) {
-        console.warn("Failed to load graph index, creating fresh");
-        return this.createEmptyIndex();
+        throw this.loadError(this.indexPath, error instanceof Error ? error.message : String(error));
       }
     }
     return this.createEmptyIndex();
   }
 
+  private loadError(filePath: string, reason: string): Error {
+    return new Error(
+      `Failed to load graph data ${filePath}: ${reason}\n\n` +
+      `Suggestions:\n` +
+      `  • Delete ${this.graphDir} and re-index with --enable-graph\n` +
+      `  • Check that ${this.graphDir} was written by this version of embedder`
+    );
+  }
+
   private createEmptyIndex(): GraphIndex {
     return {
       chunkCount: 0,
-      batchSize: BATCH_SIZE,
+      slotCount: 0,
+      tombstoneCount: 0,
+      generation: 1,
+      edgeSlotCount: 0,
+      columns: { meta: 0, text: 0, embeddings: 0, tombstones: 0, edges: 0 },
       lastUpdated: Date.now(),
     };
   }
 
   private saveConfig(): void {
     this.config.updatedAt = Date.now();
-    fs.writeFileSync(
-      this.configPath,
-      JSON.stringify(this.config, null, 2),
-      "utf-8"
-    );
+    writeFileAtomic(this.configPath, JSON.stringify(this.config, null, 2));
   }
 
   private saveIndex(): void {
     this.index.lastUpdated = Date.now();
-    fs.writeFileSync(
-      this.indexPath,
-      JSON.stringify(this.index, null, 2),
-      "utf-8"
-    );
+    writeFileAtomic(this.indexPath, JSON.stringify(this.index, null, 2));
   }
 
-  private getBatchNumber(globalIndex: number): number {
-    return Math.floor(globalIndex / BATCH_SIZE);
-  }
+  /**
+   * Load the source index, or rebuild it from the log when it was written for
+   * a different log state (a save that died between sources.json and index.json)
+   */
+  private loadSourcesIndex(): Map<string, number[]> {
+    try {
+      const file = JSON.parse(fs.readFileSync(this.sourcesPath, "utf-8")) as SourcesFile;
+      if (
+        file.generation === this.index.generation &&
+        file.slotCount === this.index.slotCount &&
+        file.tombstoneCount === this.index.tombstoneCount
+      ) {
+        return new Map(Object.entries(file.sources));
+      }
+    } catch (error) {
+      // Missing or unreadable, rebuilt below
+    }
 
-  private getChunkBatchPath(batchNum: number): string {
-    return path.join(this.chunksDir, `batch-${batchNum.toString().padStart(4, "0")}.json`);
+    if (this.index.slotCount === 0) {
+      return new Map();
+    }
+
+    console.warn("Graph source index is out of date, rebuilding it from the chunk log");
+    return this.rebuildSourcesIndex();
   }
 
-  private getEmbeddingBatchPath(batchNum: number): string {
-    return path.join(this.embeddingsDir, `batch-${batchNum.toString().padStart(4, "0")}.bin`);
+  private rebuildSourcesIndex(): Map<string, number[]> {
+    const removed = new Set<number>();
+    const tombstones = this.readColumn("tombstones", this.index.columns.tombstones);
+    for (let offset = 0; offset + 4 <= tombstones.length; offset += 4) {
+      removed.add(tombstones.readUInt32LE(offset));
+    }
+
+    const sources = new Map<string, number[]>();
+    readLines(this.getColumnPath("meta"), this.index.columns.meta, (line) => {
+      const row = parseLine<MetaRow>(line);
+      if (!row || row.slot >= this.index.slotCount || removed.has(row.slot)) {
+        return;
+      }
+      const slots = sources.get(row.source) ?? [];
+      slots.push(row.slot);
+      sources.set(row.source, slots);
+    });
+
+    return sources;
   }
 
-  private loadChunkBatch(batchNum: number): GraphChunkData[] {
-    // Always check cache first
-    if (this.chunksCache.has(batchNum)) {
-      // Return the cached array directly (we'll update cache after modification)
-      return this.chunksCache.get(batchNum)!;
+  /**
+   * Drop what an interrupted save or compaction left behind: log directories
+   * of other generations and column bytes past the committed lengths
+   */
+  private recover(): void {
+    this.removeLogDirs(this.generation);
+
+    for (const column of Object.keys(COLUMN_FILES) as LogColumn[]) {
+      const filePath = this.getColumnPath(column);
+      if (fs.existsSync(filePath) && fs.statSync(filePath).size > this.written[column]) {
+        fs.truncateSync(filePath, this.written[column]);
+      }
     }
+  }
 
-    // Load from disk
-    const batchPath = this.getChunkBatchPath(batchNum);
-    if (!fs.existsSync(batchPath)) {
-      return [];
+  private removeLogDirs(keepGeneration: number | null): void {
+    for (const entry of fs.readdirSync(this.graphDir)) {
+      if (entry.startsWith(LOG_DIR_PREFIX) && entry !== this.getLogDirName(keepGeneration ?? -1)) {
+        fs.rmSync(path.join(this.graphDir, entry), { recursive: true, force: true });
+      }
     }
+  }
 
-    try {
-      const content = fs.readFileSync(batchPath, "utf-8");
-      const batch = JSON.parse(content) as ChunkBatch;
-      // Don't cache yet - caller will cache after modification
-      return batch.chunks;
-    } catch (error) {
-      console.warn(`Failed to load chunk batch ${batchNum}`);
-      return [];
+  private getLogDirName(generation: number): string {
+    return `${LOG_DIR_PREFIX}${generation.toString().padStart(4, "0")}`;
+  }
+
+  private getColumnPath(column: LogColumn, generation: number = this.generation): string {
+    return path.join(this.graphDir, this.getLogDirName(generation), COLUMN_FILES[column]);
+  }
+
+  /**
+   * Read a column file up to a byte length (less if the file is shorter)
+   */
+  private readColumn(column: LogColumn, length: number): Buffer {
+    const filePath = this.getColumnPath(column);
+    if (length === 0 || !fs.existsSync(filePath)) {
+      return Buffer.alloc(0);
     }
+    const buffer = fs.readFileSync(filePath);
+    return buffer.subarray(0, Math.min(length, buffer.length));
   }
 
-  private saveChunkBatch(batchNum: number, chunks: GraphChunkData[]): void {
-    const batchPath = this.getChunkBatchPath(batchNum);
-    const batch: ChunkBatch = { chunks };
-    
+  /**
+   * Write rows at the end of a column, after the last written (not committed) byte
+   * Writing at that offset rather than appending overwrites a stale tail.
+   */
+  private writeColumn(column: LogColumn, data: Buffer): void {
+    if (data.length === 0) {
+      return;
+    }
+
+    const filePath = this.getColumnPath(column);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const fd = fs.openSync(filePath, fs.existsSync(filePath) ? "r+" : "w");
     try {
-      const jsonString = JSON.stringify(batch, null, 2);
-      fs.writeFileSync(batchPath, jsonString, "utf-8");
-      this.chunksCache.set(batchNum, chunks);
-    } catch (error) {
-      console.error(`Failed to save chunk batch ${batchNum}:`, error);
-      throw error;
+      fs.writeSync(fd, data, 0, data.length, this.written[column]);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
     }
+    this.written[column] += data.length;
   }
 
-  private loadEmbeddingBatch(batchNum: number): number[][] {
-    // Always check cache first
-    if (this.embeddingsCache.has(batchNum)) {
-      // Return the cached array directly (we'll update cache after modification)
-      return this.embeddingsCache.get(batchNum)!;
+  /**
+   * Write pending chunks to the log; they are committed by the next save()
+   */
+  private flushPending(): void {
+    if (this.pendingChunks.length === 0) {
+      return;
     }
 
-    // Load from disk
-    const batchPath = this.getEmbeddingBatchPath(batchNum);
-    if (!fs.existsSync(batchPath)) {
-      return [];
-    }
+    const firstSlot = this.slotCount - this.pendingChunks.length;
+    const meta: string[] = [];
+    const text: string[] = [];
+    this.pendingChunks.forEach(({ text: chunkText, ...chunk }, i) => {
+      meta.push(JSON.stringify({ slot: firstSlot + i, ...chunk }) + "\n");
+      text.push(JSON.stringify([firstSlot + i, chunkText]) + "\n");
+    });
 
-    try {
-      const buffer = fs.readFileSync(batchPath);
-      const embeddings = this.decodeEmbeddings(buffer, this.config.dimension);
-      // Don't cache yet - return the loaded data
-      return embeddings;
-    } catch (error) {
-      console.warn(`Failed to load embedding batch ${batchNum}`);
-      return [];
+    this.writeColumn("meta", Buffer.from(meta.join(""), "utf-8"));
+    this.writeColumn("text", Buffer.from(text.join(""), "utf-8"));
+    this.writeColumn("embeddings", this.encodeEmbeddings(this.pendingEmbeddings));
+
+    this.pendingChunks = [];
+    this.pendingEmbeddings = [];
+  }
+
+  private flushTombstones(): void {
+    if (this.pendingTombstones.length === 0) {
+      return;
     }
+
+    const buffer = Buffer.allocUnsafe(this.pendingTombstones.length * 4);
+    this.pendingTombstones.forEach((slot, i) => buffer.writeUInt32LE(slot, i * 4));
+    this.writeColumn("tombstones", buffer);
+    this.tombstoneCount += this.pendingTombstones.length;
+    this.pendingTombstones = [];
   }
 
-  private saveEmbeddingBatch(batchNum: number, embeddings: number[][]): void {
-    const batchPath = this.getEmbeddingBatchPath(batchNum);
-    const buffer = this.encodeEmbeddings(embeddings);
-    fs.writeFileSync(batchPath, buffer);
-    this.embeddingsCache.set(batchNum, embeddings);
+  /**
+   * Make everything written so far visible: sources.json first, then index.json
+   */
+  private commit(): void {
+    const sources: SourcesFile = {
+      generation: this.generation,
+      slotCount: this.slotCount,
+      tombstoneCount: this.tombstoneCount,
+      sources: Object.fromEntries(this.sourcesIndex),
+    };
+    writeFileAtomic(this.sourcesPath, JSON.stringify(sources));
+
+    this.index = {
+      chunkCount: this.getLiveCount(),
+      slotCount: this.slotCount,
+      tombstoneCount: this.tombstoneCount,
+      generation: this.generation,
+      edgeSlotCount: this.edgeSlotCount,
+      columns: { ...this.written },
+      lastUpdated: Date.now(),
+    };
+    this.saveIndex();
+  }
+
+  /**
+   * Copy the live chunks into a new log generation, dropping removed ones
+   */
+  private compact(): void {
+    const { chunks, embeddings, slots } = this.readRows();
+    const edges = this.readEdges(new Set(slots));
+    const previousGeneration = this.generation;
+
+    // Slots keep their order, so the linked ones stay a prefix
+    const newSlots = new Map(slots.map((slot, i) => [slot, i]));
+    const edgeSlotCount = slots.filter((slot) => slot < this.edgeSlotCount).length;
+
+    this.generation++;
+    this.written = { meta: 0, text: 0, embeddings: 0, tombstones: 0, edges: 0 };
+    this.tombstoneCount = 0;
+    this.pendingChunks = [];
+    this.pendingEmbeddings = [];
+    this.pendingTombstones = [];
+    this.sourcesIndex.clear();
+    this.removeLogDirs(previousGeneration); // Leftovers of an earlier attempt
+
+    this.slotCount = 0;
+    chunks.forEach((chunk, i) => this.appendSlot(chunk, embeddings[i]!));
+    this.flushPending();
+    this.writeColumn("edges", encodeEdges(
+      edges.map(([source, target, similarity]) => [newSlots.get(source)!, newSlots.get(target)!, similarity])
+    ));
+    this.edgeSlotCount = edgeSlotCount;
+    this.commit();
+
+    this.removeLogDirs(this.generation);
   }
 
   private encodeEmbeddings(embeddings: number[][]): Buffer {
-    // Store as: [count: uint32] [embedding1: float32[]] [embedding2: float32[]] ...
+    // Fixed width, so slot N starts at N * dimension * 4
     const dimension = this.config.dimension;
-    const count = embeddings.length;
-    const bufferSize = 4 + (count * dimension * 4); // 4 bytes per float32
-    const buffer = Buffer.allocUnsafe(bufferSize);
-    
-    let offset = 0;
-    buffer.writeUInt32LE(count, offset);
-    offset += 4;
+    const buffer = Buffer.allocUnsafe(embeddings.length * dimension * 4); // 4 bytes per float32
 
+    let offset = 0;
     for (const embedding of embeddings) {
       for (const value of embedding) {
         buffer.writeFloatLE(value, offset);
@@ -288,94 +532,177 @@ export class GraphStore {
     return buffer;
   }
 
-  private decodeEmbeddings(buffer: Buffer, dimension: number): number[][] {
-    let offset = 0;
-    const count = buffer.readUInt32LE(offset);
-    offset += 4;
+  private decodeEmbedding(buffer: Buffer, offset: number, dimension: number): number[] {
+    const embedding: number[] = [];
+    for (let j = 0; j < dimension; j++) {
+      embedding.push(buffer.readFloatLE(offset));
+      offset += 4;
+    }
+    return embedding;
+  }
 
+  /**
+   * Read the live chunks and their embeddings in slot order, including pending ones
+   * Slots with a missing or unreadable row in any column are skipped (see checkLog()).
+   */
+  private readRows(): { chunks: GraphChunkData[]; embeddings: number[][]; slots: number[] } {
+    const dimension = this.config.dimension;
+    const firstPending = this.slotCount - this.pendingChunks.length;
+    const embeddingBuffer = this.readColumn("embeddings", this.written.embeddings);
+    const rows = this.readChunkRows();
+    const chunks: GraphChunkData[] = [];
     const embeddings: number[][] = [];
-    for (let i = 0; i < count; i++) {
-      const embedding: number[] = [];
-      for (let j = 0; j < dimension; j++) {
-        embedding.push(buffer.readFloatLE(offset));
-        offset += 4;
+    const slots: number[] = [];
+
+    rows.slots.forEach((slot, i) => {
+      if (slot >= firstPending) {
+        embeddings.push(this.pendingEmbeddings[slot - firstPending]!);
+      } else if ((slot + 1) * dimension * 4 <= embeddingBuffer.length) {
+        embeddings.push(this.decodeEmbedding(embeddingBuffer, slot * dimension * 4, dimension));
+      } else {
+        return;
+      }
+      chunks.push(rows.chunks[i]!);
+      slots.push(slot);
+    });
+
+    return { chunks, embeddings, slots };
+  }
+
+  /**
+   * Read the live chunks without their embeddings, like readRows()
+   */
+  private readChunkRows(): { chunks: GraphChunkData[]; slots: number[] } {
+    const live = this.getLiveSlots();
+    const firstPending = this.slotCount - this.pendingChunks.length;
+
+    const metaRows = new Map<number, MetaRow>();
+    readLines(this.getColumnPath("meta"), this.written.meta, (line) => {
+      const row = parseLine<MetaRow>(line);
+      if (row && row.slot < firstPending && live.has(row.slot)) {
+        metaRows.set(row.slot, row);
+      }
+    });
+
+    const texts = new Map<number, string>();
+    readLines(this.getColumnPath("text"), this.written.text, (line) => {
+      const row = parseLine<[number, string]>(line);
+      if (row && row[0] < firstPending && live.has(row[0])) {
+        texts.set(row[0], row[1]);
       }
-      embeddings.push(embedding);
+    });
+
+    const chunks: GraphChunkData[] = [];
+    const slots: number[] = [];
+
+    for (const slot of [...live].sort((a, b) => a - b)) {
+      if (slot >= firstPending) {
+        chunks.push(this.pendingChunks[slot - firstPending]!);
+        slots.push(slot);
+        continue;
+      }
+
+      const row = metaRows.get(slot);
+      const text = texts.get(slot);
+      if (!row || text === undefined) {
+        continue;
+      }
+
+      const { slot: _slot, ...chunk } = row;
+      chunks.push({ ...chunk, text });
+      slots.push(slot);
     }
 
-    return embeddings;
+    return { chunks, slots };
   }
 
   /**
-   * Evict old batches from cache if we exceed MAX_CACHED_BATCHES
-   * This prevents memory leaks when processing many files
+   * Read the stored edges whose endpoints are both in live
    */
-  private evictOldCaches(keepBatchNum: number): void {
-    const totalCached = this.chunksCache.size;
-    
-    if (totalCached >= MAX_CACHED_BATCHES) {
-      // Find batch numbers to evict (all except the one we want to keep)
-      const batchNums = Array.from(this.chunksCache.keys()).filter(n => n !== keepBatchNum);
-      
-      // Evict oldest batches first
-      const toEvict = batchNums.slice(0, Math.max(0, totalCached - MAX_CACHED_BATCHES + 1));
-      
-      for (const batchNum of toEvict) {
-        // Flush to disk before evicting
-        const chunks = this.chunksCache.get(batchNum);
-        const embeddings = this.embeddingsCache.get(batchNum);
-        
-        if (chunks) {
-          this.saveChunkBatch(batchNum, chunks);
-        }
-        if (embeddings) {
-          this.saveEmbeddingBatch(batchNum, embeddings);
-        }
-        
-        // Remove from cache
-        this.chunksCache.delete(batchNum);
-        this.embeddingsCache.delete(batchNum);
+  private readEdges(live: Set<number>): EdgeRecord[] {
+    const buffer = this.readColumn("edges", this.written.edges);
+    const edges: EdgeRecord[] = [];
+
+    for (let offset = 0; offset + EDGE_BYTES <= buffer.length; offset += EDGE_BYTES) {
+      const source = buffer.readUInt32LE(offset);
+      const target = buffer.readUInt32LE(offset + 4);
+      if (live.has(source) && live.has(target)) {
+        edges.push([source, target, buffer.readFloatLE(offset + 8)]);
       }
     }
+
+    return edges;
+  }
+
+  private getLiveSlots(): Set<number> {
+    const live = new Set<number>();
+    for (const slots of this.sourcesIndex.values()) {
+      slots.forEach((slot) => live.add(slot));
+    }
+    return live;
+  }
+
+  private getLiveCount(): number {
+    let count = 0;
+    for (const slots of this.sourcesIndex.values()) {
+      count += slots.length;
+    }
+    return count;
+  }
+
+  private appendSlot(chunk: GraphChunkData, embedding: number[]): void {
+    const slot = this.slotCount++;
+    this.pendingChunks.push(chunk);
+    this.pendingEmbeddings.push(embedding);
+
+    const slots = this.sourcesIndex.get(chunk.source) ?? [];
+    slots.push(slot);
+    this.sourcesIndex.set(chunk.source, slots);
   }
 
   /**
-   * Update configuration (dimension and threshold)
+   * Update configuration (dimension and edge settings)
+   * Stored edges are dropped when the threshold or top-k changes; the next
+   * updateEdges() recomputes them for every chunk.
+   * @param topK - Edges each chunk keeps to its most similar chunks, unset for no cap
    */
-  public setConfig(dimension: number, threshold: number): void {
+  public setConfig(dimension: number, threshold: number, topK?: number): void {
+    const edgesChanged = threshold !== this.config.threshold || (topK ?? 0) !== (this.config.topK ?? 0);
+    if (edgesChanged && this.edgeSlotCount > 0 && !this.readOnly) {
+      this.edgeSlotCount = 0;
+      this.written.edges = 0;
+      this.commit();
+    }
+
     this.config.dimension = dimension;
     this.config.threshold = threshold;
+    if (topK) {
+      this.config.topK = topK;
+    } else {
+      delete this.config.topK;
+    }
     this.saveConfig();
   }
 
   /**
    * Add a chunk and its embedding to the store.
    * Always appends to the end - caller should call removeChunksBySource() first if updating.
-   * Note: Changes are buffered in memory. Call save() to persist to disk.
+   * Note: Changes are written to the log in blocks but only committed by save().
    */
   public addChunk(chunk: GraphChunkData, embedding: number[]): void {
-    const globalIndex = this.index.chunkCount;
-    const batchNum = this.getBatchNumber(globalIndex);
-    
-    // Evict old caches before loading new batch
-    this.evictOldCaches(batchNum);
-    
-    // Get current batch (either from cache or load from disk)
-    let chunks = this.loadChunkBatch(batchNum);
-    let embeddings = this.loadEmbeddingBatch(batchNum);
-    
-    // Add new data
-    chunks.push(chunk);
-    embeddings.push(embedding);
-    
-    // Update cache with the modified arrays
-    this.chunksCache.set(batchNum, chunks);
-    this.embeddingsCache.set(batchNum, embeddings);
-    
-    // Update sources index
-    this.sourcesIndex.add(chunk.source);
-    
-    this.index.chunkCount++;
+    // Embeddings are fixed-width binary, so a wrong length would shift every later slot
+    if (embedding.length !== this.config.dimension) {
+      throw new Error(
+        `Embedding for ${chunk.source} has ${embedding.length} dimensions, graph expects ${this.config.dimension}`
+      );
+    }
+
+    this.appendSlot(chunk, embedding);
+
+    // Bound memory use on large runs; the rows stay invisible until the next commit
+    if (this.pendingChunks.length >= FLUSH_SIZE && !this.readOnly) {
+      this.flushPending();
+    }
   }
 
   /**
@@ -387,193 +714,491 @@ export class GraphStore {
   }
 
   /**
-   * Remove all chunks from a specific source file
-   * Optimized to process batches one at a time to avoid loading all data into memory
+   * Source files that have chunks in the store
    */
-  public removeChunksBySource(source: string): void {
-    const totalBatches = Math.ceil(this.index.chunkCount / BATCH_SIZE);
-    let removedCount = 0;
+  public getSources(): string[] {
+    return [...this.sourcesIndex.keys()];
+  }
 
-    // First pass: count removals and mark affected batches
-    const affectedBatches = new Set<number>();
-    
-    for (let batchNum = 0; batchNum < totalBatches; batchNum++) {
-      const chunks = this.loadChunkBatch(batchNum);
-      
-      for (let i = 0; i < chunks.length; i++) {
-        if (chunks[i]!.source === source) {
-          affectedBatches.add(batchNum);
-          removedCount++;
+  /**
+   * Number of chunks stored for each source file
+   */
+  public getChunkCountsBySource(): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const [source, slots] of this.sourcesIndex) {
+      counts.set(source, slots.length);
+    }
+    return counts;
+  }
+
+  /**
+   * Compute similarity edges for the chunks added since the last call and commit them
+   * Each new chunk is linked to the live chunks above the threshold, found by
+   * exact comparison or an HNSW index (see planEdges()). With a top-k cap (and
+   * always in ANN mode) it keeps only its k most similar, so an older chunk can
+   * exceed k edges through the newer chunks that picked it.
+   */
+  public updateEdges(options: GraphEdgeOptions = {}): GraphEdgeUpdate {
+    const result: GraphEdgeUpdate = { chunksLinked: 0, method: null, quantized: false };
+    if (this.readOnly) {
+      return result;
+    }
+
+    const live = [...this.getLiveSlots()].sort((a, b) => a - b);
+    result.chunksLinked = live.filter((slot) => slot >= this.edgeSlotCount).length;
+
+    if (result.chunksLinked > 0) {
+      const { method, quantized } = planEdges(live.length, result.chunksLinked, this.config.dimension, options);
+      const vectors = this.readVectors(live, quantized);
+      const firstNew = vectors.slots.findIndex((slot) => slot >= this.edgeSlotCount);
+      const edges = buildEdges(vectors, firstNew, this.config.threshold, this.config.topK, method, options);
+      this.writeColumn("edges", encodeEdges(edges));
+      Object.assign(result, { method, quantized });
+    }
+
+    this.edgeSlotCount = this.slotCount;
+    this.save();
+    return result;
+  }
+
+  /**
+   * Load the embeddings of some slots into a VectorSet, reading the column in blocks
+   * Slots whose embedding row is missing are left out.
+   * @param slots - Sorted ascending
+   */
+  private readVectors(slots: number[], quantized: boolean): VectorSet {
+    const dimension = this.config.dimension;
+    const rowBytes = dimension * 4;
+    const firstPending = this.slotCount - this.pendingChunks.length;
+    const vectors = new VectorSet(dimension, slots.length, quantized);
+    const row = new Float32Array(dimension);
+
+    const filePath = this.getColumnPath("embeddings");
+    const fd = fs.existsSync(filePath) ? fs.openSync(filePath, "r") : null;
+    const block = Buffer.allocUnsafe(Math.max(rowBytes, READ_BLOCK_BYTES));
+    let blockStart = 0;
+    let blockLength = 0;
+
+    try {
+      for (const slot of slots) {
+        if (slot >= firstPending) {
+          vectors.add(slot, this.pendingEmbeddings[slot - firstPending]!);
+          continue;
+        }
+
+        const offset = slot * rowBytes;
+        if (fd === null || offset + rowBytes > this.written.embeddings) {
+          continue;
+        }
+        if (offset < blockStart || offset + rowBytes > blockStart + blockLength) {
+          blockStart = offset;
+          blockLength = fs.readSync(fd, block, 0, Math.min(block.length, this.written.embeddings - offset), offset);
+          if (blockLength < rowBytes) {
+            continue;
+          }
         }
+
+        for (let i = 0; i < dimension; i++) {
+          row[i] = block.readFloatLE(offset - blockStart + i * 4);
+        }
+        vectors.add(slot, row);
+      }
+    } finally {
+      if (fd !== null) {
+        fs.closeSync(fd);
       }
-      
-      // Clear from cache immediately after checking to free memory
-      this.chunksCache.delete(batchNum);
-      this.embeddingsCache.delete(batchNum);
     }
 
-    if (removedCount === 0) {
-      return; // Nothing to remove
+    return vectors;
+  }
+
+  /**
+   * Rewrite the structural edges if the log changed since they were computed
+   * Pending changes are saved first, so the edges match a committed log state.
+   * @returns Number of structural edges of each type
+   */
+  public updateStructure(): Record<StructuralEdgeType, number> {
+    const header = readHeader<StructureHeader>(this.structurePath);
+    if (this.readOnly || (header && this.isCurrent(header))) {
+      return header?.counts ?? countStructuralEdges([]);
     }
 
-    // If very few batches affected, do in-place filtering
-    if (affectedBatches.size < 5) {
-      for (const batchNum of affectedBatches) {
-        const chunks = this.loadChunkBatch(batchNum);
-        const embeddings = this.loadEmbeddingBatch(batchNum);
-        
-        const filtered = chunks.reduce<{chunks: GraphChunkData[], embeddings: number[][]}>((acc, chunk, i) => {
-          if (chunk.source !== source) {
-            acc.chunks.push(chunk);
-            acc.embeddings.push(embeddings[i]!);
-          }
-          return acc;
-        }, {chunks: [], embeddings: []});
-        
-        this.saveChunkBatch(batchNum, filtered.chunks);
-        this.saveEmbeddingBatch(batchNum, filtered.embeddings);
-        
-        // Clear from cache after saving
-        this.chunksCache.delete(batchNum);
-        this.embeddingsCache.delete(batchNum);
-      }
-      
-      this.index.chunkCount -= removedCount;
-      
-      // Remove from sources index
-      this.sourcesIndex.delete(source);
-      
-      this.saveIndex();
-      return;
+    if (this.pendingChunks.length > 0 || this.pendingTombstones.length > 0) {
+      this.save();
     }
 
-    // For many affected batches, rebuild from scratch (streaming approach)
-    // Use a temporary directory to avoid corrupting existing data
-    const tempChunksDir = this.chunksDir + '.tmp';
-    const tempEmbeddingsDir = this.embeddingsDir + '.tmp';
-    
-    if (!fs.existsSync(tempChunksDir)) {
-      fs.mkdirSync(tempChunksDir, { recursive: true });
+    const edges = buildStructuralEdges(this.readChunkRows().chunks);
+    const updated: StructureHeader = {
+      generation: this.generation,
+      slotCount: this.slotCount,
+      tombstoneCount: this.tombstoneCount,
+      counts: countStructuralEdges(edges),
+    };
+    writeFileAtomic(this.structurePath, [updated, ...edges].map((line) => JSON.stringify(line) + "\n").join(""));
+    return updated.counts;
+  }
+
+  /**
+   * Whether the structural edges are missing or older than the log
+   */
+  public needsStructure(): boolean {
+    const header = readHeader<StructureHeader>(this.structurePath);
+    return this.hasData() && !(header && this.isCurrent(header));
+  }
+
+  /**
+   * Whether a derived file's header matches the committed log and nothing is pending
+   */
+  private isCurrent(header: LogState): boolean {
+    return (
+      this.pendingChunks.length === 0 &&
+      this.pendingTombstones.length === 0 &&
+      header.generation === this.generation &&
+      header.slotCount === this.slotCount &&
+      header.tombstoneCount === this.tombstoneCount
+    );
+  }
+
+  /**
+   * Structural edges between live chunks and their files, computed in memory
+   * when the stored ones are out of date (e.g., for a read-only store during a run)
+   */
+  private readStructuralEdges(chunks: GraphChunkData[]): StructuralEdgeRecord[] {
+    const header = readHeader<StructureHeader>(this.structurePath);
+    return header && this.isCurrent(header) ? [...this.iterateStructuralEdges()] : buildStructuralEdges(chunks);
+  }
+
+  /**
+   * Whether some chunks have no edges computed yet (added since the last
+   * updateEdges(), or all of them after the edge settings changed)
+   */
+  public needsEdges(): boolean {
+    return this.edgeSlotCount < this.slotCount;
+  }
+
+  /**
+   * Number of stored edges between live chunks and how they are spread over the chunks
+   * Chunks whose edges have not been computed yet (see updateEdges()) count as isolated.
+   */
+  public getEdgeStats(): { edgeCount: number; degrees: GraphDegreeStats } {
+    const live = this.getLiveSlots();
+    const edges = this.readEdges(live);
+
+    const degree = new Map<number, number>();
+    for (const [source, target] of edges) {
+      degree.set(source, (degree.get(source) ?? 0) + 1);
+      degree.set(target, (degree.get(target) ?? 0) + 1);
+    }
+
+    const sorted = [...live].map((slot) => degree.get(slot) ?? 0).sort((a, b) => a - b);
+    const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] ?? 0;
+
+    return {
+      edgeCount: edges.length,
+      degrees: {
+        min: sorted[0] ?? 0,
+        median: percentile(0.5),
+        p90: percentile(0.9),
+        max: sorted[sorted.length - 1] ?? 0,
+        mean: sorted.length > 0 ? (edges.length * 2) / sorted.length : 0,
+        isolated: sorted.filter((d) => d === 0).length,
+      },
+    };
+  }
+
+  /**
+   * Get the stored similarity edges between live chunks, by chunk id
+   */
+  public getEdges(): GraphEdgeData[] {
+    const { chunks, slots } = this.readRows();
+    const ids = new Map(slots.map((slot, i) => [slot, chunks[i]!.id]));
+
+    return this.readEdges(new Set(slots)).map(([source, target, similarity]) => ({
+      source: ids.get(source)!,
+      target: ids.get(target)!,
+      similarity,
+    }));
+  }
+
+  /**
+   * Stream the live chunks in slot order without holding the log in memory
+   * Slots with a missing or unreadable meta or text row are skipped.
+   */
+  public *iterateChunks(): Generator<GraphChunkData> {
+    const live = this.getLiveSlots();
+    const firstPending = this.slotCount - this.pendingChunks.length;
+    const texts = iterateLines(this.getColumnPath("text"), this.written.text);
+    let text: [number, string] | null = null;
+
+    try {
+      for (const line of iterateLines(this.getColumnPath("meta"), this.written.meta)) {
+        const row = parseLine<MetaRow>(line);
+        if (!row || row.slot >= firstPending || !live.has(row.slot)) {
+          continue;
+        }
+
+        // Both columns are in slot order, so the text cursor only moves forward
+        while (text === null || text[0] < row.slot) {
+          const next = texts.next();
+          if (next.done) {
+            break;
+          }
+          text = parseLine<[number, string]>(next.value) ?? text;
+        }
+
+        if (text?.[0] === row.slot) {
+          const { slot: _slot, ...chunk } = row;
+          yield { ...chunk, text: text[1] };
+        }
+      }
+    } finally {
+      texts.return(undefined);
     }
-    if (!fs.existsSync(tempEmbeddingsDir)) {
-      fs.mkdirSync(tempEmbeddingsDir, { recursive: true });
+
+    for (let i = 0; i < this.pendingChunks.length; i++) {
+      if (live.has(firstPending + i)) {
+        yield this.pendingChunks[i]!;
+      }
     }
+  }
+
+  /**
+   * Stream the stored similarity edges between live chunks, by chunk id
+   * Only the chunk ids are held in memory; the edges are read in blocks.
+   * @param minSimilarity - Skip edges at or below this similarity
+   */
+  public *iterateEdges(minSimilarity: number = -1): Generator<GraphEdgeData> {
+    const live = this.getLiveSlots();
+    const firstPending = this.slotCount - this.pendingChunks.length;
+    const ids = new Map<number, string>();
+    readLines(this.getColumnPath("meta"), this.written.meta, (line) => {
+      const row = parseLine<MetaRow>(line);
+      if (row && row.slot < firstPending && live.has(row.slot)) {
+        ids.set(row.slot, row.id);
+      }
+    });
+    this.pendingChunks.forEach((chunk, i) => ids.set(firstPending + i, chunk.id));
 
-    let newChunkCount = 0;
-    let newBatchNum = 0;
-    let newBatchChunks: GraphChunkData[] = [];
-    let newBatchEmbeddings: number[][] = [];
+    const filePath = this.getColumnPath("edges");
+    if (this.written.edges === 0 || !fs.existsSync(filePath)) {
+      return;
+    }
 
-    // Process each batch one at a time
-    for (let batchNum = 0; batchNum < totalBatches; batchNum++) {
-      const chunks = this.loadChunkBatch(batchNum);
-      const embeddings = this.loadEmbeddingBatch(batchNum);
-
-      for (let i = 0; i < chunks.length; i++) {
-        if (chunks[i]!.source !== source) {
-          newBatchChunks.push(chunks[i]!);
-          newBatchEmbeddings.push(embeddings[i]!);
-          
-          // Write batch when full
-          if (newBatchChunks.length >= BATCH_SIZE) {
-            const tempChunkPath = path.join(tempChunksDir, `batch-${newBatchNum.toString().padStart(4, "0")}.json`);
-            const tempEmbeddingPath = path.join(tempEmbeddingsDir, `batch-${newBatchNum.toString().padStart(4, "0")}.bin`);
-            
-            fs.writeFileSync(tempChunkPath, JSON.stringify({ chunks: newBatchChunks }, null, 2), "utf-8");
-            fs.writeFileSync(tempEmbeddingPath, this.encodeEmbeddings(newBatchEmbeddings));
-            
-            newChunkCount += newBatchChunks.length;
-            newBatchNum++;
-            newBatchChunks = [];
-            newBatchEmbeddings = [];
+    const fd = fs.openSync(filePath, "r");
+    try {
+      const block = Buffer.allocUnsafe(Math.floor(READ_BLOCK_BYTES / EDGE_BYTES) * EDGE_BYTES);
+      for (let position = 0; position < this.written.edges;) {
+        const bytesRead = fs.readSync(fd, block, 0, Math.min(block.length, this.written.edges - position), position);
+        if (bytesRead < EDGE_BYTES) {
+          break;
+        }
+        position += bytesRead - (bytesRead % EDGE_BYTES);
+
+        for (let offset = 0; offset + EDGE_BYTES <= bytesRead; offset += EDGE_BYTES) {
+          const source = ids.get(block.readUInt32LE(offset));
+          const target = ids.get(block.readUInt32LE(offset + 4));
+          const similarity = block.readFloatLE(offset + 8);
+          if (source && target && similarity > minSimilarity) {
+            yield { source, target, similarity };
           }
         }
       }
-      
-      // Clear from cache to free memory
-      this.chunksCache.delete(batchNum);
-      this.embeddingsCache.delete(batchNum);
+    } finally {
+      fs.closeSync(fd);
     }
+  }
 
-    // Write final partial batch
-    if (newBatchChunks.length > 0) {
-      const tempChunkPath = path.join(tempChunksDir, `batch-${newBatchNum.toString().padStart(4, "0")}.json`);
-      const tempEmbeddingPath = path.join(tempEmbeddingsDir, `batch-${newBatchNum.toString().padStart(4, "0")}.bin`);
-      
-      fs.writeFileSync(tempChunkPath, JSON.stringify({ chunks: newBatchChunks }, null, 2), "utf-8");
-      fs.writeFileSync(tempEmbeddingPath, this.encodeEmbeddings(newBatchEmbeddings));
-      
-      newChunkCount += newBatchChunks.length;
+  /**
+   * Stream the structural edges (see updateStructure())
+   * When the stored ones are out of date they are computed in memory instead.
+   */
+  public *iterateStructuralEdges(): Generator<StructuralEdgeRecord> {
+    const header = readHeader<StructureHeader>(this.structurePath);
+    if (!header || !this.isCurrent(header)) {
+      yield* buildStructuralEdges(this.readChunkRows().chunks);
+      return;
     }
 
-    // Clear all caches
-    this.chunksCache.clear();
-    this.embeddingsCache.clear();
+    let first = true;
+    for (const line of iterateLines(this.structurePath, fs.statSync(this.structurePath).size)) {
+      const edge = first ? null : parseLine<StructuralEdgeRecord>(line);
+      first = false;
+      if (edge) {
+        yield edge;
+      }
+    }
+  }
 
-    // Remove old batch files
-    for (let batchNum = 0; batchNum < totalBatches; batchNum++) {
-      const chunkPath = this.getChunkBatchPath(batchNum);
-      const embeddingPath = this.getEmbeddingBatchPath(batchNum);
-      if (fs.existsSync(chunkPath)) fs.unlinkSync(chunkPath);
-      if (fs.existsSync(embeddingPath)) fs.unlinkSync(embeddingPath);
-    }
-
-    // Move temp files to main directories
-    const tempChunkFiles = fs.readdirSync(tempChunksDir);
-    for (const file of tempChunkFiles) {
-      fs.renameSync(
-        path.join(tempChunksDir, file),
-        path.join(this.chunksDir, file)
-      );
+  /**
+   * Store the cluster of each chunk and the cluster summaries (clusters.json)
+   * Pending changes are saved first, so the clusters match a committed log state.
+   * @param assignments - Cluster id per chunk id; unclustered chunks are left out
+   */
+  public saveClusters(assignments: Map<string, number>, summary: ClusterSummary): void {
+    if (this.readOnly) {
+      return;
     }
 
-    const tempEmbeddingFiles = fs.readdirSync(tempEmbeddingsDir);
-    for (const file of tempEmbeddingFiles) {
-      fs.renameSync(
-        path.join(tempEmbeddingsDir, file),
-        path.join(this.embeddingsDir, file)
-      );
+    if (this.pendingChunks.length > 0 || this.pendingTombstones.length > 0) {
+      this.save();
+    }
+
+    const header: ClustersHeader = {
+      generation: this.generation,
+      slotCount: this.slotCount,
+      tombstoneCount: this.tombstoneCount,
+      clusterCount: summary.clusters.length,
+    };
+    writeFileAtomic(path.join(this.graphDir, CLUSTER_SUMMARY_FILE), JSON.stringify(summary, null, 2));
+    writeFileAtomic(this.clustersPath, [header, ...assignments].map((line) => JSON.stringify(line) + "\n").join(""));
+  }
+
+  /**
+   * Cluster id of each clustered chunk, or null if the clusters are missing or older than the log
+   */
+  public readClusters(): Map<string, number> | null {
+    if (this.needsClusters()) {
+      return null;
+    }
+
+    const assignments = new Map<string, number>();
+    let first = true;
+    for (const line of iterateLines(this.clustersPath, fs.statSync(this.clustersPath).size)) {
+      const assignment = first ? null : parseLine<[string, number]>(line);
+      first = false;
+      if (assignment) {
+        assignments.set(assignment[0], assignment[1]);
+      }
+    }
+    return assignments;
+  }
+
+  /**
+   * Whether the clusters are missing or were computed before the log last changed
+   */
+  public needsClusters(): boolean {
+    const header = readHeader<ClustersHeader>(this.clustersPath);
+    return !(header && this.isCurrent(header));
+  }
+
+  /**
+   * Read the cluster summaries written by saveClusters()
+   * Doesn't open the store, so it is safe to call before any graph data exists.
+   */
+  public static readClusterSummary(outputDir: string): ClusterSummary | null {
+    const summaryPath = path.join(outputDir, GRAPH_DIR, CLUSTER_SUMMARY_FILE);
+    if (!fs.existsSync(summaryPath)) {
+      return null;
+    }
+    return parseLine<ClusterSummary>(fs.readFileSync(summaryPath, "utf-8"));
+  }
+
+  /**
+   * Check that every committed live chunk has a row in each column and that
+   * the source index agrees with the metadata column
+   * Reads the files directly, so unsaved changes are not checked.
+   * @returns One entry per problem, with the sources whose chunks it affects
+   */
+  public checkLog(): Array<{ problem: string; sources: string[] }> {
+    const owners = new Map<number, string>();
+    for (const [source, slots] of this.sourcesIndex) {
+      slots.filter((slot) => slot < this.index.slotCount).forEach((slot) => owners.set(slot, source));
+    }
+
+    const withMeta = new Set<number>();
+    const misattributed = new Set<string>();
+    readLines(this.getColumnPath("meta"), this.index.columns.meta, (line) => {
+      const row = parseLine<MetaRow>(line);
+      if (!row || !owners.has(row.slot)) {
+        return;
+      }
+      withMeta.add(row.slot);
+      if (row.source !== owners.get(row.slot)) {
+        misattributed.add(owners.get(row.slot)!);
+      }
+    });
+
+    const withText = new Set<number>();
+    readLines(this.getColumnPath("text"), this.index.columns.text, (line) => {
+      const row = parseLine<[number, string]>(line);
+      if (row && owners.has(row[0])) {
+        withText.add(row[0]);
+      }
+    });
+
+    const embeddingsPath = this.getColumnPath("embeddings");
+    const embeddingBytes = fs.existsSync(embeddingsPath) ? fs.statSync(embeddingsPath).size : 0;
+    const slotBytes = this.config.dimension * 4;
+
+    const missing = { meta: new Set<string>(), text: new Set<string>(), embeddings: new Set<string>() };
+    const missingCounts = { meta: 0, text: 0, embeddings: 0 };
+    for (const [slot, source] of owners) {
+      if (!withMeta.has(slot)) {
+        missing.meta.add(source);
+        missingCounts.meta++;
+      }
+      if (!withText.has(slot)) {
+        missing.text.add(source);
+        missingCounts.text++;
+      }
+      if ((slot + 1) * slotBytes > embeddingBytes) {
+        missing.embeddings.add(source);
+        missingCounts.embeddings++;
+      }
+    }
+
+    const problems: Array<{ problem: string; sources: string[] }> = [];
+    for (const column of ["meta", "text", "embeddings"] as const) {
+      if (missingCounts[column] > 0) {
+        problems.push({
+          problem: `${missingCounts[column]} chunk(s) missing from ${COLUMN_FILES[column]}`,
+          sources: [...missing[column]],
+        });
+      }
+    }
+    if (misattributed.size > 0) {
+      problems.push({
+        problem: `${SOURCES_FILE} disagrees with ${COLUMN_FILES.meta} about which file chunks belong to`,
+        sources: [...misattributed],
+      });
     }
 
-    // Clean up temp directories
-    fs.rmdirSync(tempChunksDir);
-    fs.rmdirSync(tempEmbeddingsDir);
+    return problems;
+  }
 
-    // Update index
-    this.index.chunkCount = newChunkCount;
-    
-    // Remove from sources index
+  /**
+   * Remove all chunks from a specific source file
+   * The chunks are tombstoned, not rewritten; save() compacts the log once enough are removed.
+   */
+  public removeChunksBySource(source: string): void {
+    const slots = this.sourcesIndex.get(source);
+    if (!slots) {
+      return; // Nothing to remove
+    }
+
+    this.pendingTombstones.push(...slots);
     this.sourcesIndex.delete(source);
-    
-    this.saveIndex();
   }
 
   /**
-   * Save any pending changes (flushes all cached batches to disk)
+   * Save any pending changes and commit them, compacting the log if it is due
    */
   public save(): void {
-    // Flush all cached batches to disk
-    const batchNums = Array.from(this.chunksCache.keys());
-    
-    for (const batchNum of batchNums) {
-      const chunks = this.chunksCache.get(batchNum);
-      const embeddings = this.embeddingsCache.get(batchNum);
-      
-      if (chunks) {
-        this.saveChunkBatch(batchNum, chunks);
-      }
-      if (embeddings) {
-        this.saveEmbeddingBatch(batchNum, embeddings);
-      }
-    }
-    
-    // Update timestamps and save metadata
+    // Read-only stores (including "1.0" data migrated in memory) are never written
+    if (this.readOnly) {
+      return;
+    }
+
+    this.flushPending();
+    this.flushTombstones();
+
+    if (this.tombstoneCount > 0 && this.tombstoneCount >= this.slotCount * COMPACTION_RATIO) {
+      this.compact();
+    } else {
+      this.commit();
+    }
+
     this.saveConfig();
-    this.saveIndex();
-    
-    // Clear caches after save to free memory
-    this.chunksCache.clear();
-    this.embeddingsCache.clear();
   }
 
   /**
@@ -581,7 +1206,7 @@ export class GraphStore {
    */
   public getStats(): { nodeCount: number; updatedAt: number } {
     return {
-      nodeCount: this.index.chunkCount,
+      nodeCount: this.getLiveCount(),
       updatedAt: this.index.lastUpdated,
     };
   }
@@ -590,7 +1215,7 @@ export class GraphStore {
    * Check if there's existing graph data
    */
   public hasData(): boolean {
-    return this.index.chunkCount > 0;
+    return this.sourcesIndex.size > 0;
   }
 
   /**
@@ -605,13 +1230,19 @@ export class GraphStore {
 
   /**
    * Build a GraphRAG instance from the persisted data
-   * 
+   *
+   * Source files become nodes too, linked to their chunks and to each other by
+   * structural edges. File nodes have a zero embedding, so queries never start
+   * from them, but walks pass through them.
+   *
    * @param dimension - Override dimension (uses stored if not provided)
    * @param threshold - Override threshold (uses stored if not provided)
+   * @param edgeWeights - Walk weight per edge type (semantic edges also scale by similarity)
    */
   public buildGraphRAG(
     dimension?: number,
-    threshold?: number
+    threshold?: number,
+    edgeWeights: Partial<GraphEdgeWeights> = {}
   ): GraphRAG | null {
     if (!this.hasData()) {
       return null;
@@ -619,6 +1250,7 @@ export class GraphStore {
 
     const dim = dimension ?? this.config.dimension;
     const thresh = threshold ?? this.config.threshold;
+    const weights = { ...DEFAULT_EDGE_WEIGHTS, ...edgeWeights };
 
     if (dim === 0) {
       throw new Error("Graph dimension not set");
@@ -626,94 +1258,281 @@ export class GraphStore {
 
     const graphRag = new GraphRAG(dim, thresh);
 
-    // Load all chunks and embeddings from batches
-    const totalBatches = Math.ceil(this.index.chunkCount / BATCH_SIZE);
-    const allChunks: GraphChunkData[] = [];
-    const allEmbeddings: number[][] = [];
+    // Load all live chunks and embeddings from the log
+    const { chunks, embeddings, slots } = this.readRows();
+    const ids = new Map<number, string>();
+    chunks.forEach(({ text, ...metadata }, i) => {
+      graphRag.addNode({ id: metadata.id, content: text, embedding: embeddings[i]!, metadata });
+      ids.set(slots[i]!, metadata.id);
+    });
+
+    // Stored edges only cover similarities above the stored threshold, so a
+    // lower one is computed in memory; so are chunks not linked yet
+    const vectors = new VectorSet(dim, slots.length);
+    slots.forEach((slot, i) => vectors.add(slot, embeddings[i]!));
+    const inMemory = (fromSlot: number, edgeThreshold: number): EdgeRecord[] => {
+      const firstNew = slots.findIndex((slot) => slot >= fromSlot);
+      if (firstNew === -1) {
+        return [];
+      }
+      // The graph is in memory already, so no budget applies
+      const { method } = planEdges(slots.length, slots.length - firstNew, dim, { memoryMb: Infinity });
+      return buildEdges(vectors, firstNew, edgeThreshold, this.config.topK, method, {});
+    };
+    const edges = thresh < this.config.threshold
+      ? inMemory(0, thresh)
+      : [...this.readEdges(new Set(slots)), ...inMemory(this.edgeSlotCount, this.config.threshold)];
+
+    for (const [source, target, similarity] of edges) {
+      if (similarity > thresh && weights.semantic > 0) {
+        graphRag.addEdge({
+          source: ids.get(source)!,
+          target: ids.get(target)!,
+          weight: similarity * weights.semantic,
+          type: "semantic",
+        });
+      }
+    }
 
-    for (let batchNum = 0; batchNum < totalBatches; batchNum++) {
-      const chunks = this.loadChunkBatch(batchNum);
-      const embeddings = this.loadEmbeddingBatch(batchNum);
-      allChunks.push(...chunks);
-      allEmbeddings.push(...embeddings);
-    }
-
-    // Convert to GraphRAG format
-    const graphChunks = allChunks.map((chunk) => ({
-      text: chunk.text,
-      metadata: {
-        id: chunk.id,
-        source: chunk.source,
-        chunkIndex: chunk.chunkIndex,
-      },
-    }));
+    const chunkIds = new Set(ids.values());
+    const fileNodes = new Set<string>();
+    const fileEmbedding = new Array<number>(dim).fill(0);
+    for (const [type, source, target] of this.readStructuralEdges(chunks)) {
+      if (weights[type] <= 0) {
+        continue;
+      }
 
-    const graphEmbeddings = allEmbeddings.map((emb) => ({
-      vector: emb,
-    }));
+      let linked = true;
+      for (const node of [source, target]) {
+        if (!node.startsWith(FILE_NODE_PREFIX)) {
+          linked &&= chunkIds.has(node);
+        } else if (!fileNodes.has(node)) {
+          const filePath = node.slice(FILE_NODE_PREFIX.length);
+          graphRag.addNode({
+            id: node,
+            content: filePath,
+            embedding: fileEmbedding,
+            metadata: { id: node, source: filePath, nodeType: "file" },
+          });
+          fileNodes.add(node);
+        }
+      }
 
-    // Build the graph
-    graphRag.createGraph(graphChunks, graphEmbeddings);
+      if (linked) {
+        // GraphRAG only declares the "semantic" type but keeps any label
+        graphRag.addEdge({ source, target, weight: weights[type], type: type as "semantic" });
+      }
+    }
 
     return graphRag;
   }
 
   /**
-   * Get all chunks (loads from all batches)
+   * Get all chunks (reads the whole log)
    */
   public getChunks(): GraphChunkData[] {
-    const totalBatches = Math.ceil(this.index.chunkCount / BATCH_SIZE);
-    const allChunks: GraphChunkData[] = [];
+    return this.readRows().chunks;
+  }
 
-    for (let batchNum = 0; batchNum < totalBatches; batchNum++) {
-      const chunks = this.loadChunkBatch(batchNum);
-      allChunks.push(...chunks);
-    }
+  /**
+   * Get all embeddings (reads the whole log)
+   */
+  public getEmbeddings(): number[][] {
+    return this.readRows().embeddings;
+  }
 
-    return allChunks;
+  /**
+   * Clear all data (useful for full re-index)
+   */
+  public clear(): void {
+    // Commit an empty log generation first, so a crash part way leaves an empty store
+    this.generation++;
+    this.slotCount = 0;
+    this.tombstoneCount = 0;
+    this.edgeSlotCount = 0;
+    this.written = { meta: 0, text: 0, embeddings: 0, tombstones: 0, edges: 0 };
+    this.pendingChunks = [];
+    this.pendingEmbeddings = [];
+    this.pendingTombstones = [];
+    this.sourcesIndex.clear();
+    this.commit();
+
+    this.removeLogDirs(this.generation);
   }
 
   /**
-   * Get all embeddings (loads from all batches)
+   * Load data in the "1.0" layout (1000-chunk JSON batches in chunks/ and
+   * embeddings/) and, unless read-only, rewrite it as a chunk log
+   * The old files are deleted only after the log and the new config version
+   * are committed, so an interrupted migration starts over on the next load.
    */
-  public getEmbeddings(): number[][] {
-    const totalBatches = Math.ceil(this.index.chunkCount / BATCH_SIZE);
-    const allEmbeddings: number[][] = [];
+  private migrateLegacy(): void {
+    const legacyChunksDir = path.join(this.graphDir, LEGACY_CHUNKS_DIR);
+    const legacyEmbeddingsDir = path.join(this.graphDir, LEGACY_EMBEDDINGS_DIR);
+    const journalPath = path.join(this.graphDir, LEGACY_JOURNAL_FILE);
+
+    let chunkCount = 0;
+    try {
+      chunkCount = (JSON.parse(fs.readFileSync(this.indexPath, "utf-8")) as { chunkCount: number }).chunkCount;
+    } catch (error) {
+      // No legacy index, nothing to migrate
+    }
+    if (!this.readOnly) {
+      chunkCount = this.applyLegacyJournal(journalPath) ?? chunkCount;
+      this.removeLogDirs(null); // Left by an interrupted migration
+    }
 
+    const batchName = (batchNum: number, ext: string) => `batch-${batchNum.toString().padStart(4, "0")}${ext}`;
+    const totalBatches = Math.ceil(chunkCount / LEGACY_BATCH_SIZE);
     for (let batchNum = 0; batchNum < totalBatches; batchNum++) {
-      const embeddings = this.loadEmbeddingBatch(batchNum);
-      allEmbeddings.push(...embeddings);
+      let chunks: GraphChunkData[] = [];
+      let embeddings: Buffer;
+      try {
+        chunks = (JSON.parse(
+          fs.readFileSync(path.join(legacyChunksDir, batchName(batchNum, ".json")), "utf-8")
+        ) as { chunks: GraphChunkData[] }).chunks;
+        embeddings = fs.readFileSync(path.join(legacyEmbeddingsDir, batchName(batchNum, ".bin")));
+      } catch (error) {
+        console.warn(`Failed to load chunk batch ${batchNum}`);
+        continue;
+      }
+
+      // [count: uint32] followed by count * dimension float32 values
+      const count = Math.min(chunks.length, embeddings.length >= 4 ? embeddings.readUInt32LE(0) : 0);
+      for (let i = 0; i < count; i++) {
+        this.addChunk(chunks[i]!, this.decodeEmbedding(embeddings, 4 + i * this.config.dimension * 4, this.config.dimension));
+      }
     }
 
-    return allEmbeddings;
+    if (this.readOnly) {
+      return;
+    }
+
+    console.warn(`Migrating graph data to the ${FORMAT_VERSION} chunk log format`);
+    this.config.version = FORMAT_VERSION;
+    this.save();
+
+    for (const dir of [legacyChunksDir, legacyEmbeddingsDir]) {
+      fs.rmSync(dir + LEGACY_STAGING_SUFFIX, { recursive: true, force: true });
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+    fs.rmSync(journalPath, { force: true });
   }
 
   /**
-   * Clear all data (useful for full re-index)
+   * Finish a "1.0" batch rewrite that was committed but not fully applied
+   * @returns The chunk count recorded in the journal, or null without a committed journal
    */
-  public clear(): void {
-    // Remove all batch files
-    if (fs.existsSync(this.chunksDir)) {
-      const files = fs.readdirSync(this.chunksDir);
-      for (const file of files) {
-        fs.unlinkSync(path.join(this.chunksDir, file));
-      }
+  private applyLegacyJournal(journalPath: string): number | null {
+    let journal: { stagedBatches: number[]; deletedBatches: number[]; chunkCount: number };
+    try {
+      journal = JSON.parse(fs.readFileSync(journalPath, "utf-8"));
+    } catch (error) {
+      return null;
     }
 
-    if (fs.existsSync(this.embeddingsDir)) {
-      const files = fs.readdirSync(this.embeddingsDir);
-      for (const file of files) {
-        fs.unlinkSync(path.join(this.embeddingsDir, file));
+    const batchName = (batchNum: number, ext: string) => `batch-${batchNum.toString().padStart(4, "0")}${ext}`;
+    for (const [dir, ext] of [[LEGACY_CHUNKS_DIR, ".json"], [LEGACY_EMBEDDINGS_DIR, ".bin"]] as const) {
+      const target = path.join(this.graphDir, dir);
+      for (const batchNum of journal.stagedBatches) {
+        const staged = path.join(target + LEGACY_STAGING_SUFFIX, batchName(batchNum, ext));
+        if (fs.existsSync(staged)) {
+          fs.renameSync(staged, path.join(target, batchName(batchNum, ext)));
+        }
+      }
+      for (const batchNum of journal.deletedBatches) {
+        fs.rmSync(path.join(target, batchName(batchNum, ext)), { force: true });
       }
     }
 
-    // Reset index
-    this.index = this.createEmptyIndex();
-    this.saveIndex();
+    return journal.chunkCount;
+  }
+}
 
-    // Clear caches and sources index
-    this.chunksCache.clear();
-    this.embeddingsCache.clear();
-    this.sourcesIndex.clear();
+/**
+ * Parse the first line of a JSON lines file without reading the rest
+ */
+function readHeader<T>(filePath: string): T | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  const fd = fs.openSync(filePath, "r");
+  try {
+    // Headers are short; read just enough to cover one
+    const block = Buffer.allocUnsafe(4096);
+    const bytesRead = fs.readSync(fd, block, 0, block.length, 0);
+    const newline = block.subarray(0, bytesRead).indexOf(0x0a);
+    return newline === -1 ? null : parseLine<T>(block.subarray(0, newline).toString("utf-8"));
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function countStructuralEdges(edges: StructuralEdgeRecord[]): Record<StructuralEdgeType, number> {
+  const counts = Object.fromEntries(STRUCTURAL_EDGE_TYPES.map((type) => [type, 0])) as Record<StructuralEdgeType, number>;
+  edges.forEach(([type]) => counts[type]++);
+  return counts;
+}
+
+function encodeEdges(edges: EdgeRecord[]): Buffer {
+  const buffer = Buffer.allocUnsafe(edges.length * EDGE_BYTES);
+  edges.forEach(([source, target, similarity], i) => {
+    buffer.writeUInt32LE(source, i * EDGE_BYTES);
+    buffer.writeUInt32LE(target, i * EDGE_BYTES + 4);
+    buffer.writeFloatLE(similarity, i * EDGE_BYTES + 8);
+  });
+  return buffer;
+}
+
+/**
+ * Call onLine for each complete line in the first length bytes of a file
+ * Reads in blocks, so large columns never become a single string.
+ */
+function readLines(filePath: string, length: number, onLine: (line: string) => void): void {
+  for (const line of iterateLines(filePath, length)) {
+    onLine(line);
+  }
+}
+
+/**
+ * Complete lines in the first length bytes of a file, read in blocks like readLines()
+ */
+function* iterateLines(filePath: string, length: number): Generator<string> {
+  if (length === 0 || !fs.existsSync(filePath)) {
+    return;
+  }
+
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const block = Buffer.allocUnsafe(1024 * 1024);
+    let carry = Buffer.alloc(0);
+    let position = 0;
+
+    while (position < length) {
+      const bytesRead = fs.readSync(fd, block, 0, Math.min(block.length, length - position), position);
+      if (bytesRead === 0) {
+        break; // File is shorter than the committed length
+      }
+      position += bytesRead;
+
+      let data = Buffer.concat([carry, block.subarray(0, bytesRead)]);
+      let newline: number;
+      while ((newline = data.indexOf(0x0a)) !== -1) {
+        yield data.subarray(0, newline).toString("utf-8");
+        data = data.subarray(newline + 1);
+      }
+      carry = Buffer.from(data);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function parseLine<T>(line: string): T | null {
+  try {
+    return JSON.parse(line) as T;
+  } catch (error) {
+    return null;
   }
 }
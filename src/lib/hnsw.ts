@@ -0,0 +1,342 @@
+import { VectorSet } from "./vector-set.js";
+
+const MAX_LEVEL = 15;
+
+export interface HnswOptions {
+  m?: number; // Links per node on the upper layers, twice that on layer 0
+  efConstruction: number; // Candidates considered while linking a new node
+  seed?: number; // Level assignment is seeded, so builds are reproducible
+}
+
+/**
+ * Hierarchical navigable small world graph (Malkov & Yashunin) over a VectorSet
+ *
+ * Nodes are the positions in the set and are inserted in order. Layer 0 links
+ * are kept in one flat Int32Array; the few nodes on higher layers keep theirs
+ * in a map. Similarity is the set's cosine similarity.
+ */
+export class HnswIndex {
+  private vectors: VectorSet;
+  private m: number;
+  private m0: number;
+  private efConstruction: number;
+  private levelFactor: number;
+  private random: () => number;
+
+  private levels: Uint8Array;
+  private layer0: Int32Array;
+  private layer0Counts: Uint8Array;
+  private upperLayers: Map<number, number[][]> = new Map(); // Node → links on layers 1..level
+  private entryPoint = -1;
+  private maxLevel = -1;
+
+  private visited: Uint32Array;
+  private visitMark = 0;
+
+  constructor(vectors: VectorSet, options: HnswOptions) {
+    this.vectors = vectors;
+    this.m = options.m ?? 16;
+    this.m0 = this.m * 2;
+    this.efConstruction = Math.max(options.efConstruction, this.m);
+    this.levelFactor = 1 / Math.log(this.m);
+    this.random = seededRandom(options.seed ?? 42);
+
+    const capacity = vectors.size;
+    this.levels = new Uint8Array(capacity);
+    this.layer0 = new Int32Array(capacity * this.m0);
+    this.layer0Counts = new Uint8Array(capacity);
+    this.visited = new Uint32Array(capacity);
+  }
+
+  /**
+   * Approximate bytes used by an index of this size, not counting the vectors
+   */
+  public static estimateBytes(count: number, m: number = 16): number {
+    // Layer 0 links and counters, levels and visit marks, plus upper layers for about 1/m of the nodes
+    return count * (m * 2 * 4 + 6) + Math.ceil(count / m) * (m * 4 + 64);
+  }
+
+  /**
+   * Link the node at a position into the graph
+   */
+  public insert(node: number): void {
+    const level = Math.min(MAX_LEVEL, Math.floor(-Math.log(1 - this.random()) * this.levelFactor));
+    this.levels[node] = level;
+    if (level > 0) {
+      this.upperLayers.set(node, Array.from({ length: level }, () => []));
+    }
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.greedyClosest(node, entry, layer);
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node, entry, this.efConstruction, layer);
+      const neighbours = this.selectNeighbours(candidates, layer === 0 ? this.m0 : this.m);
+      this.setLinks(node, layer, neighbours);
+      for (const neighbour of neighbours) {
+        this.link(neighbour, node, layer);
+      }
+      entry = candidates[0]![0];
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+    }
+  }
+
+  /**
+   * Approximate k most similar nodes to an inserted node, most similar first
+   * @param ef - Candidates kept during the search; higher finds more true neighbours
+   */
+  public neighbours(node: number, k: number, ef: number): Array<[node: number, similarity: number]> {
+    if (this.entryPoint === -1) {
+      return [];
+    }
+
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.greedyClosest(node, entry, layer);
+    }
+
+    return this.searchLayer(node, entry, Math.max(ef, k + 1), 0)
+      .filter(([candidate]) => candidate !== node)
+      .slice(0, k);
+  }
+
+  private getLinks(node: number, layer: number): ArrayLike<number> {
+    if (layer === 0) {
+      const start = node * this.m0;
+      return this.layer0.subarray(start, start + this.layer0Counts[node]!);
+    }
+    return this.upperLayers.get(node)?.[layer - 1] ?? [];
+  }
+
+  private setLinks(node: number, layer: number, links: number[]): void {
+    if (layer === 0) {
+      this.layer0.set(links, node * this.m0);
+      this.layer0Counts[node] = links.length;
+      return;
+    }
+    this.upperLayers.get(node)![layer - 1] = links;
+  }
+
+  /**
+   * Add a back link, pruning the node's links if it has too many
+   */
+  private link(node: number, target: number, layer: number): void {
+    const links = Array.from(this.getLinks(node, layer));
+    const max = layer === 0 ? this.m0 : this.m;
+
+    if (links.length < max) {
+      links.push(target);
+      this.setLinks(node, layer, links);
+      return;
+    }
+
+    const candidates = [...links, target]
+      .map((candidate): [number, number] => [candidate, this.vectors.similarity(node, candidate)])
+      .sort((a, b) => b[1] - a[1]);
+    this.setLinks(node, layer, this.selectNeighbours(candidates, max));
+  }
+
+  /**
+   * Pick up to max neighbours, skipping candidates closer to an already picked
+   * neighbour than to the query, so links point in different directions
+   * @param candidates - Sorted by similarity to the query, most similar first
+   */
+  private selectNeighbours(candidates: Array<[number, number]>, max: number): number[] {
+    const picked: number[] = [];
+    const skipped: number[] = [];
+
+    for (const [candidate, similarity] of candidates) {
+      if (picked.length >= max) {
+        break;
+      }
+      if (picked.every((other) => this.vectors.similarity(candidate, other) < similarity)) {
+        picked.push(candidate);
+      } else {
+        skipped.push(candidate);
+      }
+    }
+
+    // Fill up with the skipped ones rather than leave links unused
+    for (const candidate of skipped) {
+      if (picked.length >= max) {
+        break;
+      }
+      picked.push(candidate);
+    }
+
+    return picked;
+  }
+
+  private greedyClosest(query: number, entry: number, layer: number): number {
+    let closest = entry;
+    let best = this.vectors.similarity(query, entry);
+
+    for (let changed = true; changed;) {
+      changed = false;
+      const links = this.getLinks(closest, layer);
+      for (let i = 0; i < links.length; i++) {
+        const similarity = this.vectors.similarity(query, links[i]!);
+        if (similarity > best) {
+          best = similarity;
+          closest = links[i]!;
+          changed = true;
+        }
+      }
+    }
+
+    return closest;
+  }
+
+  /**
+   * Best-first search of one layer
+   * @returns Up to ef nodes, most similar first
+   */
+  private searchLayer(query: number, entry: number, ef: number, layer: number): Array<[number, number]> {
+    if (++this.visitMark === 0xffffffff) {
+      this.visited.fill(0);
+      this.visitMark = 1;
+    }
+
+    const candidates = new Heap(true); // Most similar on top
+    const results = new Heap(false); // Least similar on top, so it can be dropped
+    const entrySimilarity = this.vectors.similarity(query, entry);
+    this.visited[entry] = this.visitMark;
+    candidates.push(entry, entrySimilarity);
+    results.push(entry, entrySimilarity);
+
+    while (candidates.size > 0) {
+      const similarity = candidates.peekScore();
+      const current = candidates.pop();
+      if (results.size >= ef && similarity < results.peekScore()) {
+        break;
+      }
+
+      const links = this.getLinks(current, layer);
+      for (let i = 0; i < links.length; i++) {
+        const next = links[i]!;
+        if (this.visited[next] === this.visitMark) {
+          continue;
+        }
+        this.visited[next] = this.visitMark;
+
+        const nextSimilarity = this.vectors.similarity(query, next);
+        if (results.size < ef || nextSimilarity > results.peekScore()) {
+          candidates.push(next, nextSimilarity);
+          results.push(next, nextSimilarity);
+          if (results.size > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    const found: Array<[number, number]> = [];
+    while (results.size > 0) {
+      const score = results.peekScore();
+      found.push([results.pop(), score]);
+    }
+    return found.reverse();
+  }
+}
+
+/**
+ * Binary heap of node ids ordered by score
+ */
+class Heap {
+  private ids: number[] = [];
+  private scores: number[] = [];
+  private max: boolean;
+
+  constructor(max: boolean) {
+    this.max = max;
+  }
+
+  public get size(): number {
+    return this.ids.length;
+  }
+
+  public peekScore(): number {
+    return this.scores[0]!;
+  }
+
+  public push(id: number, score: number): void {
+    this.ids.push(id);
+    this.scores.push(score);
+
+    let i = this.ids.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(i, parent)) {
+        break;
+      }
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  public pop(): number {
+    const top = this.ids[0]!;
+    const lastId = this.ids.pop()!;
+    const lastScore = this.scores.pop()!;
+
+    if (this.ids.length > 0) {
+      this.ids[0] = lastId;
+      this.scores[0] = lastScore;
+
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let first = i;
+        if (left < this.ids.length && this.before(left, first)) {
+          first = left;
+        }
+        if (right < this.ids.length && this.before(right, first)) {
+          first = right;
+        }
+        if (first === i) {
+          break;
+        }
+        this.swap(i, first);
+        i = first;
+      }
+    }
+
+    return top;
+  }
+
+  private before(a: number, b: number): boolean {
+    return this.max ? this.scores[a]! > this.scores[b]! : this.scores[a]! < this.scores[b]!;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.ids[a], this.ids[b]] = [this.ids[b]!, this.ids[a]!];
+    [this.scores[a], this.scores[b]] = [this.scores[b]!, this.scores[a]!];
+  }
+}
+
+/**
+ * mulberry32: small, fast and good enough for level assignment
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,49 @@
+import * as path from "path";
+import { CodeChunker } from "./code-chunker.js";
+
+// Languages without a syntax-aware chunker, detected by extension only
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".mdx": "markdown",
+  ".html": "html",
+  ".htm": "html",
+  ".json": "json",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+  ".toml": "toml",
+  ".xml": "xml",
+  ".css": "css",
+  ".scss": "scss",
+  ".sql": "sql",
+  ".sh": "shell",
+  ".bash": "shell",
+  ".zsh": "shell",
+  ".c": "c",
+  ".h": "c",
+  ".cpp": "cpp",
+  ".cc": "cpp",
+  ".hpp": "cpp",
+  ".cs": "csharp",
+  ".rb": "ruby",
+  ".php": "php",
+  ".swift": "swift",
+  ".kt": "kotlin",
+  ".scala": "scala",
+  ".vue": "vue",
+  ".svelte": "svelte",
+};
+
+/**
+ * Detect the language of a file from its extension
+ * @returns Language name (e.g., "typescript", "markdown"), or "text" if unknown
+ */
+export function detectLanguage(filePath: string): string {
+  const codeLanguage = CodeChunker.getLanguage(filePath);
+  if (codeLanguage) {
+    return codeLanguage;
+  }
+
+  const ext = path.extname(filePath).toLowerCase();
+  return EXTENSION_LANGUAGES[ext] ?? "text";
+}
@@ -0,0 +1,118 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import chalk from "chalk";
+import type { SearchOptions } from "../types/index.js";
+import { Searcher } from "./searcher.js";
+
+/**
+ * EmbedderMcpServer exposes the index to coding assistants over MCP (stdio).
+ *
+ * Tools:
+ *   search_code      - Vector search against the LanceDB table
+ *   graph_search     - Random-walk retrieval over the knowledge graph
+ *   get_file_chunks  - All indexed chunks for one source file
+ *   index_status     - Index status from the state file
+ *
+ * stdout carries the protocol, so all logging goes to stderr.
+ */
+export class EmbedderMcpServer {
+  private searcher: Searcher;
+  private server: McpServer;
+
+  constructor(options: SearchOptions) {
+    this.searcher = new Searcher(options);
+    this.server = new McpServer({ name: "embedder", version: "1.0.0" });
+    this.registerTools();
+  }
+
+  public async start(): Promise<void> {
+    this.searcher.watchGraph();
+    await this.server.connect(new StdioServerTransport());
+    console.error(chalk.green("✓ Embedder MCP server running on stdio"));
+  }
+
+  public async stop(): Promise<void> {
+    this.searcher.close();
+    await this.server.close();
+  }
+
+  private registerTools(): void {
+    this.server.registerTool(
+      "search_code",
+      {
+        description:
+          "Semantic search over the indexed repository. Returns the most similar chunks " +
+          "with their source path and distance score (lower is more similar).",
+        inputSchema: {
+          query: z.string().describe("Natural language description of the code to find"),
+          topK: z.number().int().positive().optional().describe("Number of results (default: 10)"),
+          source: z.string().optional().describe("Glob filter on source paths (e.g., src/**/*.ts)"),
+        },
+      },
+      async ({ query, topK, source }) =>
+        this.respond(() => this.searcher.search(query, topK ?? 10, source))
+    );
+
+    this.server.registerTool(
+      "graph_search",
+      {
+        description:
+          "Graph-augmented retrieval using random walks over the knowledge graph (chunk similarity, imports and symbol references). " +
+          "Finds related code that plain vector search can miss. Requires an index built with --enable-graph.",
+        inputSchema: {
+          query: z.string().describe("Natural language question"),
+          topK: z.number().int().positive().optional().describe("Number of results (default: 10)"),
+          randomWalkSteps: z.number().int().positive().optional().describe("Random walk steps (default: 100)"),
+          restartProb: z.number().gt(0).lt(1).optional().describe("Restart probability (default: 0.15)"),
+        },
+      },
+      async ({ query, topK, randomWalkSteps, restartProb }) =>
+        this.respond(() =>
+          this.searcher.graphSearch(query, {
+            topK: topK ?? 10,
+            randomWalkSteps: randomWalkSteps ?? 100,
+            restartProb: restartProb ?? 0.15,
+          })
+        )
+    );
+
+    this.server.registerTool(
+      "get_file_chunks",
+      {
+        description:
+          "List every indexed chunk for a source file. Use the source path exactly as returned by search_code.",
+        inputSchema: {
+          path: z.string().describe("Source path as stored in the index"),
+        },
+      },
+      async ({ path }) => this.respond(() => this.searcher.getFileChunks(path))
+    );
+
+    this.server.registerTool(
+      "index_status",
+      {
+        description: "Report the last indexed commit, file count and knowledge graph metadata.",
+      },
+      async () => this.respond(async () => this.searcher.getStatus())
+    );
+  }
+
+  /**
+   * Run a tool handler and wrap its result (or error) as MCP text content
+   */
+  private async respond(handler: () => Promise<unknown>): Promise<CallToolResult> {
+    try {
+      const result = await handler();
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (error) {
+      return {
+        content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
+        isError: true,
+      };
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const LOCK_FILE_NAME = ".embedder.lock";
+
+interface LockInfo {
+  pid: number;
+  hostname: string;
+  command: string;
+  startedAt: number;
+}
+
+/**
+ * OutputLock keeps two runs from writing to the same output directory at once.
+ *
+ * The lock is a file created exclusively in the output directory, holding the
+ * owner's pid and hostname. A lock left behind by a process that no longer
+ * exists on this host is taken over; a lock from another host can't be
+ * checked and has to be removed by hand. The lock is released on release()
+ * or when the process exits.
+ */
+export class OutputLock {
+  private lockPath: string;
+  private released: boolean = false;
+  private onExit = () => this.release();
+
+  private constructor(lockPath: string) {
+    this.lockPath = lockPath;
+    process.once("exit", this.onExit);
+  }
+
+  /**
+   * Take the lock for an output directory, creating the directory if needed
+   * @param command - Shown to other runs that find the directory locked
+   */
+  public static acquire(outputDir: string, command: string): OutputLock {
+    fs.mkdirSync(outputDir, { recursive: true });
+    const lockPath = path.join(outputDir, LOCK_FILE_NAME);
+    const info: LockInfo = { pid: process.pid, hostname: os.hostname(), command, startedAt: Date.now() };
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        fs.writeFileSync(lockPath, JSON.stringify(info, null, 2), { flag: "wx" });
+        return new OutputLock(lockPath);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+      }
+
+      // An unreadable lock may be one that is still being written, so it counts as held
+      const holder = readLock(lockPath);
+      if (!holder || !isStale(holder)) {
+        throw new Error(
+          `Output directory ${outputDir} is in use by another run\n` +
+          (holder
+            ? `Locked by '${holder.command}' (pid ${holder.pid} on ${holder.hostname}) ` +
+              `since ${new Date(holder.startedAt).toLocaleString()}\n\n`
+            : `\n`) +
+          `Suggestions:\n` +
+          `  • Wait for the other run (or watch mode) to finish\n` +
+          `  • If no other run is active, delete ${lockPath}`
+        );
+      }
+
+      // Left behind by a crashed run: take it over
+      fs.rmSync(lockPath, { force: true });
+    }
+
+    throw new Error(`Could not lock output directory ${outputDir}; another run took the lock first`);
+  }
+
+  public release(): void {
+    if (this.released) {
+      return;
+    }
+    this.released = true;
+    process.removeListener("exit", this.onExit);
+
+    // Only remove the file if it is still ours
+    if (readLock(this.lockPath)?.pid === process.pid) {
+      fs.rmSync(this.lockPath, { force: true });
+    }
+  }
+}
+
+function readLock(lockPath: string): LockInfo | null {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, "utf-8")) as LockInfo;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * A lock is stale when its process is gone; only checkable on the same host
+ */
+function isStale(holder: LockInfo): boolean {
+  if (holder.hostname !== os.hostname()) {
+    return false;
+  }
+
+  try {
+    process.kill(holder.pid, 0); // Signal 0 only checks that the process exists
+    return false;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "ESRCH";
+  }
+}
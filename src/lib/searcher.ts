@@ -0,0 +1,359 @@
+import { LanceVectorStore } from "@mastra/lance";
+import type { GraphRAG } from "@mastra/rag";
+import type {
+  EmbeddingProvider,
+  SearchOptions,
+  SearchResult,
+  GraphSearchParams,
+  GraphSearchResult,
+  IndexStatus,
+} from "../types/index.js";
+import { GraphStore } from "./graph-store.js";
+import { createEmbeddingProvider } from "./embedding-provider.js";
+import { StateManager } from "./state-manager.js";
+import { matchesGlob } from "./glob.js";
+import chalk from "chalk";
+import * as fs from "fs";
+
+// When filtering by source glob or cluster, fetch extra candidates so filtering still yields topK hits
+const FILTER_OVERFETCH_FACTOR = 10;
+const MAX_FILE_CHUNKS = 10000; // Upper bound when listing every chunk of one file
+const GRAPH_WATCH_INTERVAL_MS = 2000; // Poll interval for graph-data/index.json
+const GRAPH_RELOAD_DEBOUNCE_MS = 1000; // Wait for the indexer to finish writing
+const GRAPH_FILE_OVERFETCH_FACTOR = 2; // File nodes are dropped from graph results, so ask for more
+
+// Metadata columns returned with search results (the vector and hashes are left out)
+const RESULT_COLUMNS = [
+  "metadata_text",
+  "metadata_source",
+  "metadata_chunkIndex",
+  "metadata_startLine",
+  "metadata_endLine",
+  "metadata_language",
+  "metadata_symbolName",
+  "metadata_symbolKind",
+];
+
+/**
+ * Searcher runs semantic queries against an index written by the Embedder.
+ * Queries are embedded with the same provider and model that were used
+ * at index time. Graph searches rebuild the GraphRAG
+ * instance from the persisted graph-data/ folder once and reuse it.
+ */
+export class Searcher {
+  private options: SearchOptions;
+  private vectorStore: LanceVectorStore | null = null;
+  private graphRag: GraphRAG | null = null;
+  private graphThreshold: number | undefined;
+  private graphHasFiles = false; // Whether structural edges added source file nodes
+  private graphWatchPath: string | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private provider: EmbeddingProvider;
+
+  constructor(options: SearchOptions) {
+    this.options = options;
+
+    // The fake provider has no model to ask, so its vectors follow the index's dimension
+    const dimension = options.dimension ??
+      (options.provider === "fake" ? new StateManager(options.output).getFingerprint()?.dimension : undefined);
+    this.provider = createEmbeddingProvider({ ...options, ...(dimension && { dimension }) });
+  }
+
+  private async initVectorStore(): Promise<LanceVectorStore> {
+    if (this.vectorStore) {
+      return this.vectorStore;
+    }
+
+    if (!fs.existsSync(this.options.output)) {
+      throw new Error(
+        `Index not found at ${this.options.output}\n\n` +
+        `Suggestions:\n` +
+        `  • Check the --output path\n` +
+        `  • Run the indexer first: embedder -d <repo> -o ${this.options.output} ...`
+      );
+    }
+
+    this.vectorStore = await LanceVectorStore.create(this.options.output);
+
+    const tables = await this.vectorStore.listTables();
+    if (!tables.includes(this.options.tableName)) {
+      throw new Error(
+        `Table '${this.options.tableName}' not found in ${this.options.output}\n` +
+        `Available tables: ${tables.length > 0 ? tables.join(", ") : "(none)"}`
+      );
+    }
+
+    return this.vectorStore;
+  }
+
+  /**
+   * Embed a query string with the configured model
+   */
+  public async embedQuery(query: string): Promise<number[]> {
+    const [embedding] = await this.provider.embedMany([query]);
+    if (!embedding) {
+      throw new Error("Provider returned no embedding for the query");
+    }
+
+    if (this.options.dimension && embedding.length !== this.options.dimension) {
+      throw new Error(
+        `Query embedding has ${embedding.length} dimensions but the index expects ${this.options.dimension}\n` +
+        `Check that --provider, --model and --dimensions match the values used for indexing`
+      );
+    }
+
+    return embedding;
+  }
+
+  /**
+   * Run a vector similarity search
+   * @param query - Natural language query
+   * @param topK - Maximum number of results
+   * @param sourceGlob - Only return chunks whose source path matches this glob
+   * @param cluster - Only return chunks of this cluster (see the clusters command)
+   */
+  public async search(
+    query: string,
+    topK: number,
+    sourceGlob?: string,
+    cluster?: number
+  ): Promise<SearchResult[]> {
+    const vectorStore = await this.initVectorStore();
+    const members = cluster === undefined ? null : this.getClusterMembers(cluster);
+    const queryVector = await this.embedQuery(query);
+
+    const results = await vectorStore.query({
+      tableName: this.options.tableName,
+      indexName: "vector", // Column name where vectors are stored
+      queryVector,
+      topK: sourceGlob || members ? topK * FILTER_OVERFETCH_FACTOR : topK,
+      columns: RESULT_COLUMNS,
+    });
+
+    return results
+      .map((result) => ({
+        id: result.id,
+        ...readChunkFields(result.metadata),
+        text: String(result.metadata?.text ?? ""),
+        score: result.score,
+      }))
+      .filter((result) => !sourceGlob || matchesGlob(result.source, sourceGlob))
+      .filter((result) => !members || members.has(`${result.source}\n${result.chunkIndex}`))
+      .slice(0, topK);
+  }
+
+  /**
+   * Chunks of a cluster from graph-data/clusters.json, as "source\nchunkIndex" keys
+   * LanceDB rows have their own ids, so chunks are matched by location.
+   */
+  private getClusterMembers(cluster: number): Set<string> {
+    const summary = GraphStore.readClusterSummary(this.options.output);
+    if (!summary) {
+      throw new Error(
+        `No clusters found in ${this.options.output}\n\n` +
+        `Suggestions:\n` +
+        `  • Run embedder clusters -o ${this.options.output} first`
+      );
+    }
+
+    const info = summary.clusters.find((candidate) => candidate.id === cluster);
+    if (!info) {
+      throw new Error(
+        `Cluster ${cluster} not found\n\n` +
+        `Suggestions:\n` +
+        (summary.clusters.length > 0
+          ? `  • Use a cluster id from 0 to ${summary.clusters.length - 1}`
+          : `  • No cluster reached the minimum size; re-run embedder clusters with a lower --min-size`)
+      );
+    }
+
+    if (new GraphStore(this.options.output, true).needsClusters()) {
+      console.error(chalk.yellow("Warning: The index changed since clusters were computed; re-run embedder clusters to update them"));
+    }
+
+    return new Set(info.files.flatMap((file) => file.chunks.map((chunkIndex) => `${file.source}\n${chunkIndex}`)));
+  }
+
+  /**
+   * Get every chunk stored for a source file
+   * Needs the index dimension, since LanceDB only exposes vector queries;
+   * it is probed from the model when not configured.
+   * @param source - Source path exactly as stored in the index
+   */
+  public async getFileChunks(source: string): Promise<SearchResult[]> {
+    const vectorStore = await this.initVectorStore();
+    const dimension = this.options.dimension ?? (await this.embedQuery(source)).length;
+
+    // A zero vector ranks every row equally; the filter does the actual selection
+    const results = await vectorStore.query({
+      tableName: this.options.tableName,
+      indexName: "vector", // Column name where vectors are stored
+      queryVector: new Array(dimension).fill(0),
+      topK: MAX_FILE_CHUNKS,
+      filter: { source },
+      columns: RESULT_COLUMNS,
+    });
+
+    return results.map((result) => ({
+      id: result.id,
+      ...readChunkFields(result.metadata),
+      text: String(result.metadata?.text ?? ""),
+      score: result.score,
+    }));
+  }
+
+  /**
+   * Build the GraphRAG instance from persisted data (cached after first call)
+   * @param threshold - Override the similarity threshold stored with the graph
+   */
+  public loadGraph(threshold?: number): GraphRAG {
+    if (this.graphRag && this.graphThreshold === threshold) {
+      return this.graphRag;
+    }
+
+    if (!GraphStore.exists(this.options.output)) {
+      throw new Error(
+        `No graph data found in ${this.options.output}\n\n` +
+        `Suggestions:\n` +
+        `  • Re-run the indexer with --enable-graph`
+      );
+    }
+
+    const graphStore = new GraphStore(this.options.output, true);
+    const graphRag = graphStore.buildGraphRAG(undefined, threshold, this.options.edgeWeights);
+    if (!graphRag) {
+      throw new Error(`Graph data in ${this.options.output} is empty`);
+    }
+
+    this.graphRag = graphRag;
+    this.graphThreshold = threshold;
+    this.graphHasFiles = graphRag.getNodes().some((node) => node.metadata?.nodeType === "file");
+    return graphRag;
+  }
+
+  /**
+   * Discard the cached graph and rebuild it from disk
+   * Call this after the indexer has updated graph-data/
+   */
+  public reloadGraph(): GraphRAG {
+    const threshold = this.graphThreshold;
+    this.graphRag = null;
+    return this.loadGraph(threshold);
+  }
+
+  public isGraphLoaded(): boolean {
+    return this.graphRag !== null;
+  }
+
+  /**
+   * Rebuild the graph whenever graph-data/index.json changes
+   * Reloads are debounced because the indexer rewrites the index several times per run.
+   * Messages go to stderr so stdout stays free for protocol traffic (e.g., MCP over stdio).
+   */
+  public watchGraph(): void {
+    if (this.graphWatchPath) {
+      return;
+    }
+
+    this.graphWatchPath = GraphStore.getIndexPath(this.options.output);
+    fs.watchFile(this.graphWatchPath, { interval: GRAPH_WATCH_INTERVAL_MS }, (curr, prev) => {
+      if (curr.mtimeMs !== prev.mtimeMs) {
+        this.scheduleGraphReload();
+      }
+    });
+  }
+
+  private scheduleGraphReload(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      if (!GraphStore.exists(this.options.output)) {
+        return;
+      }
+
+      try {
+        this.reloadGraph();
+        console.error(chalk.green("✓ Knowledge graph reloaded"));
+      } catch (error) {
+        console.error(chalk.yellow(`Warning: Failed to reload graph: ${error instanceof Error ? error.message : String(error)}`));
+      }
+    }, GRAPH_RELOAD_DEBOUNCE_MS);
+  }
+
+  /**
+   * Stop watching for graph changes
+   */
+  public close(): void {
+    if (this.graphWatchPath) {
+      fs.unwatchFile(this.graphWatchPath);
+      this.graphWatchPath = null;
+    }
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+  }
+
+  /**
+   * Run a graph-augmented search using random walk with restart
+   * @param query - Natural language query
+   * @param params - Random walk parameters and optional threshold override
+   */
+  public async graphSearch(
+    query: string,
+    params: GraphSearchParams
+  ): Promise<GraphSearchResult[]> {
+    const graphRag = this.loadGraph(params.threshold);
+    const queryVector = await this.embedQuery(query);
+
+    const nodes = graphRag.query({
+      query: queryVector,
+      topK: this.graphHasFiles ? params.topK * GRAPH_FILE_OVERFETCH_FACTOR : params.topK,
+      randomWalkSteps: params.randomWalkSteps,
+      restartProb: params.restartProb,
+    });
+
+    // Walks pass through source file nodes, but only chunks are results
+    const chunks = nodes.filter((node) => node.metadata?.nodeType !== "file").slice(0, params.topK);
+    return chunks.map((node) => ({
+      id: String(node.metadata?.id ?? node.id),
+      ...readChunkFields(node.metadata),
+      text: node.content,
+      score: node.score,
+    }));
+  }
+
+  /**
+   * Read the current index status from the state file
+   * The state file is re-read on every call so concurrent index runs are reflected.
+   */
+  public getStatus(): IndexStatus {
+    const stateManager = new StateManager(this.options.output);
+
+    return {
+      lastCommitHash: stateManager.getLastCommitHash(),
+      fileCount: stateManager.getFileCount(),
+      graphMetadata: stateManager.getGraphMetadata(),
+      graphLoaded: this.isGraphLoaded(),
+    };
+  }
+}
+
+/**
+ * Read the location and symbol fields shared by vector and graph results
+ * Missing fields (e.g., graph data written by older versions) default to 0 or "".
+ */
+function readChunkFields(metadata: Record<string, any> | undefined) {
+  return {
+    source: String(metadata?.source ?? ""),
+    chunkIndex: Number(metadata?.chunkIndex ?? 0),
+    startLine: Number(metadata?.startLine ?? 0),
+    endLine: Number(metadata?.endLine ?? 0),
+    language: String(metadata?.language ?? ""),
+    symbolName: String(metadata?.symbolName ?? ""),
+    symbolKind: String(metadata?.symbolKind ?? ""),
+  };
+}
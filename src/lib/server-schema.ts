@@ -0,0 +1,132 @@
+/**
+ * JSON Schema describing the HTTP retrieval server endpoints.
+ * Served at GET /schema so clients can discover request and response shapes.
+ */
+
+// Location and symbol fields shared by vector and graph results
+const chunkFields = {
+  id: { type: "string" },
+  source: { type: "string", description: "Path of the indexed file" },
+  chunkIndex: { type: "integer", description: "Position of the chunk within its file" },
+  startLine: { type: "integer", description: "First line of the chunk (1-based, 0 if unknown)" },
+  endLine: { type: "integer", description: "Last line of the chunk (inclusive, 0 if unknown)" },
+  language: { type: "string", description: "Language detected from the file extension" },
+  symbolName: { type: "string", description: "Declared symbols, comma separated (code files only)" },
+  symbolKind: { type: "string", description: "Kinds of the declared symbols, comma separated" },
+  text: { type: "string", description: "Chunk text" },
+};
+
+const chunkRequired = ["id", "source", "chunkIndex", "startLine", "endLine", "text", "score"];
+
+const searchResult = {
+  type: "object",
+  required: chunkRequired,
+  properties: {
+    ...chunkFields,
+    score: { type: "number", description: "LanceDB distance (lower is more similar)" },
+  },
+};
+
+const graphSearchResult = {
+  type: "object",
+  required: chunkRequired,
+  properties: {
+    ...chunkFields,
+    score: { type: "number", description: "Random-walk relevance (higher is more relevant)" },
+  },
+};
+
+const errorResponse = {
+  type: "object",
+  required: ["error"],
+  properties: {
+    error: { type: "string" },
+  },
+};
+
+export const SERVER_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "Embedder retrieval server",
+  description:
+    "Request parameters may be sent as a JSON body (POST) or as query string parameters (GET). " +
+    "Errors are returned with a 4xx/5xx status and an error body.",
+  endpoints: {
+    "/search": {
+      methods: ["GET", "POST"],
+      description: "Vector similarity search against the LanceDB table",
+      request: {
+        type: "object",
+        required: ["query"],
+        properties: {
+          query: { type: "string", description: "Natural language query" },
+          topK: { type: "integer", minimum: 1, default: 10 },
+          source: { type: "string", description: "Glob filter on source paths (e.g., src/**/*.ts)" },
+        },
+      },
+      response: {
+        type: "object",
+        required: ["results"],
+        properties: {
+          results: { type: "array", items: searchResult },
+        },
+      },
+    },
+    "/graph-search": {
+      methods: ["GET", "POST"],
+      description: "Random-walk retrieval over the knowledge graph",
+      request: {
+        type: "object",
+        required: ["query"],
+        properties: {
+          query: { type: "string", description: "Natural language query" },
+          topK: { type: "integer", minimum: 1, default: 10 },
+          randomWalkSteps: { type: "integer", minimum: 1, default: 100 },
+          restartProb: { type: "number", exclusiveMinimum: 0, exclusiveMaximum: 1, default: 0.15 },
+        },
+      },
+      response: {
+        type: "object",
+        required: ["results"],
+        properties: {
+          results: { type: "array", items: graphSearchResult },
+        },
+      },
+    },
+    "/status": {
+      methods: ["GET"],
+      description: "Index status from the state file",
+      response: {
+        type: "object",
+        required: ["lastCommitHash", "fileCount", "graphMetadata", "graphLoaded"],
+        properties: {
+          lastCommitHash: { type: ["string", "null"] },
+          fileCount: { type: "integer" },
+          graphMetadata: {
+            type: ["object", "null"],
+            properties: {
+              nodeCount: { type: "integer" },
+              edgeCount: { type: "integer" },
+              degrees: {
+                type: "object",
+                description: "Edges per chunk (min, median, p90, max, mean, isolated)",
+              },
+              structuralEdges: {
+                type: "object",
+                description: "Structural edge count per type (contains, imports, references)",
+              },
+              lastGraphUpdate: { type: "integer", description: "Unix timestamp (ms)" },
+            },
+          },
+          graphLoaded: { type: "boolean", description: "Whether a graph is loaded for /graph-search" },
+        },
+      },
+    },
+    "/schema": {
+      methods: ["GET"],
+      description: "This document",
+    },
+  },
+  definitions: {
+    error: errorResponse,
+  },
+};
@@ -0,0 +1,231 @@
+import * as http from "http";
+import chalk from "chalk";
+import type { ServerOptions } from "../types/index.js";
+import { Searcher } from "./searcher.js";
+import { GraphStore } from "./graph-store.js";
+import { SERVER_SCHEMA } from "./server-schema.js";
+
+const MAX_BODY_BYTES = 1024 * 1024; // 1MB request body limit
+
+class HttpError extends Error {
+  public status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * RetrievalServer exposes the index over a small local HTTP API.
+ *
+ * Endpoints (see server-schema.ts for request/response shapes):
+ *   /search        - Vector search against the LanceDB table
+ *   /graph-search  - Random-walk retrieval over the knowledge graph
+ *   /status        - Index status from the state file
+ *   /schema        - JSON schema for all endpoints
+ *
+ * The graph is built once at startup and rebuilt when graph-data/index.json changes.
+ */
+export class RetrievalServer {
+  private options: ServerOptions;
+  private searcher: Searcher;
+  private server: http.Server | null = null;
+
+  constructor(options: ServerOptions) {
+    this.options = options;
+    this.searcher = new Searcher(options);
+  }
+
+  public async start(): Promise<void> {
+    if (GraphStore.exists(this.options.output)) {
+      console.log(chalk.cyan("Building knowledge graph..."));
+      try {
+        this.searcher.loadGraph();
+        console.log(chalk.green("✓ Knowledge graph loaded"));
+      } catch (error) {
+        console.warn(chalk.yellow(`Warning: Failed to load graph: ${error instanceof Error ? error.message : String(error)}`));
+      }
+    } else {
+      console.log(chalk.gray("No graph data found, /graph-search is disabled until the graph is built"));
+    }
+
+    this.searcher.watchGraph();
+
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        this.sendError(res, error);
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(this.options.port, this.options.host, () => resolve());
+    });
+
+    console.log(chalk.green(`✓ Listening on http://${this.options.host}:${this.options.port}`));
+  }
+
+  public async stop(): Promise<void> {
+    this.searcher.close();
+
+    if (this.server) {
+      await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+  }
+
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+
+    if (req.method !== "GET" && req.method !== "POST") {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    switch (url.pathname) {
+      case "/search": {
+        const params = await this.readParams(req, url);
+        const query = this.requireString(params, "query");
+        const results = await this.searcher.search(
+          query,
+          this.optionalPositiveInteger(params, "topK") ?? 10,
+          typeof params.source === "string" ? params.source : undefined
+        );
+        this.sendJson(res, 200, { results });
+        return;
+      }
+
+      case "/graph-search": {
+        if (!this.searcher.isGraphLoaded()) {
+          throw new HttpError(404, "No knowledge graph loaded. Re-run the indexer with --enable-graph");
+        }
+
+        const params = await this.readParams(req, url);
+        const query = this.requireString(params, "query");
+        const restartProb = this.optionalNumber(params, "restartProb") ?? 0.15;
+        if (restartProb <= 0 || restartProb >= 1) {
+          throw new HttpError(400, "restartProb must be between 0 and 1");
+        }
+
+        const results = await this.searcher.graphSearch(query, {
+          topK: this.optionalPositiveInteger(params, "topK") ?? 10,
+          randomWalkSteps: this.optionalPositiveInteger(params, "randomWalkSteps") ?? 100,
+          restartProb,
+        });
+        this.sendJson(res, 200, { results });
+        return;
+      }
+
+      case "/status":
+        this.sendJson(res, 200, this.searcher.getStatus());
+        return;
+
+      case "/schema":
+        this.sendJson(res, 200, SERVER_SCHEMA);
+        return;
+
+      default:
+        throw new HttpError(404, `Unknown endpoint: ${url.pathname}`);
+    }
+  }
+
+  /**
+   * Merge query string parameters with the JSON body (body wins)
+   */
+  private async readParams(
+    req: http.IncomingMessage,
+    url: URL
+  ): Promise<Record<string, unknown>> {
+    const params: Record<string, unknown> = Object.fromEntries(url.searchParams);
+
+    if (req.method !== "POST") {
+      return params;
+    }
+
+    // Counted in raw bytes and decoded once, so multibyte characters can't exceed the limit or be split
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req as AsyncIterable<Buffer>) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new HttpError(413, "Request body too large");
+      }
+      chunks.push(chunk);
+    }
+    const body = Buffer.concat(chunks).toString("utf-8");
+
+    if (!body.trim()) {
+      return params;
+    }
+
+    try {
+      const parsed = JSON.parse(body);
+      if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+        throw new Error("not an object");
+      }
+      return { ...params, ...parsed };
+    } catch (error) {
+      throw new HttpError(400, "Request body must be a JSON object");
+    }
+  }
+
+  private requireString(params: Record<string, unknown>, name: string): string {
+    const value = params[name];
+    if (typeof value !== "string" || !value.trim()) {
+      throw new HttpError(400, `Missing required parameter '${name}'`);
+    }
+    return value;
+  }
+
+  private optionalNumber(params: Record<string, unknown>, name: string): number | undefined {
+    const value = params[name];
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const parsed = typeof value === "number" ? value : parseFloat(String(value));
+    if (isNaN(parsed) || parsed <= 0) {
+      throw new HttpError(400, `Invalid parameter '${name}': ${String(value)}`);
+    }
+    return parsed;
+  }
+
+  /**
+   * Like the CLI's --top-k: whole numbers of at least 1 only, so 0.5 isn't floored to 0
+   */
+  private optionalPositiveInteger(params: Record<string, unknown>, name: string): number | undefined {
+    const value = params[name];
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const parsed = typeof value === "number" ? value : typeof value === "string" && value.trim() ? Number(value) : NaN;
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new HttpError(400, `Invalid parameter '${name}': ${String(value)} (must be an integer of at least 1)`);
+    }
+    return parsed;
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendError(res: http.ServerResponse, error: unknown): void {
+    const status = error instanceof HttpError ? error.status : 500;
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (status >= 500) {
+      console.error(chalk.red(`✗ ${message}`));
+    }
+
+    if (!res.headersSent) {
+      this.sendJson(res, status, { error: message });
+    } else {
+      res.end();
+    }
+  }
+}
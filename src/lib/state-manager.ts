@@ -1,7 +1,8 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as crypto from "crypto";
-import type { StateFile, ProcessedFile } from "../types/index.js";
+import type { StateFile, ProcessedFile, IndexFingerprint, FailedFile, GraphDegreeStats, StructuralEdgeType } from "../types/index.js";
+import { writeFileAtomic } from "./atomic-write.js";
 
 const STATE_FILE_NAME = ".embedder-state.json";
 
@@ -20,8 +21,14 @@ export class StateManager {
         const content = fs.readFileSync(this.stateFilePath, "utf-8");
         return JSON.parse(content);
       } catch (error) {
-        console.warn("Failed to load state file, starting fresh");
-        return { files: {}, lastUpdated: Date.now() };
+        // Starting fresh would silently re-embed everything and lose the commit hash
+        throw new Error(
+          `Failed to load state file ${this.stateFilePath}: ` +
+          `${error instanceof Error ? error.message : String(error)}\n\n` +
+          `Suggestions:\n` +
+          `  • Delete the state file and re-index with --mode full\n` +
+          `  • Run 'embedder verify --repair' afterwards to bring LanceDB and the graph data in line`
+        );
       }
     }
     return { files: {}, lastUpdated: Date.now() };
@@ -33,11 +40,7 @@ export class StateManager {
     if (!fs.existsSync(dir)) {
       fs.mkdirSync(dir, { recursive: true });
     }
-    fs.writeFileSync(
-      this.stateFilePath,
-      JSON.stringify(this.state, null, 2),
-      "utf-8"
-    );
+    writeFileAtomic(this.stateFilePath, JSON.stringify(this.state, null, 2));
   }
 
   public computeHash(content: string): string {
@@ -67,23 +70,63 @@ export class StateManager {
       chunks: chunksCount,
       timestamp: Date.now(),
     };
+    this.clearFailure(filePath);
+  }
+
+  /**
+   * Record a file that could not be indexed, so the next run retries it first
+   */
+  public markFailed(filePath: string, error: string): void {
+    const failedFiles = (this.state.failedFiles ??= {});
+    failedFiles[filePath] = {
+      path: filePath,
+      error,
+      attempts: (failedFiles[filePath]?.attempts ?? 0) + 1,
+      timestamp: Date.now(),
+    };
+  }
+
+  public getFailedFiles(): FailedFile[] {
+    return Object.values(this.state.failedFiles || {});
+  }
+
+  public clearFailure(filePath: string): void {
+    if (!this.state.failedFiles) {
+      return;
+    }
+    delete this.state.failedFiles[filePath];
+    if (Object.keys(this.state.failedFiles).length === 0) {
+      delete this.state.failedFiles;
+    }
   }
 
   public getProcessedFiles(): string[] {
     return Object.keys(this.state.files);
   }
 
+  public getProcessedFile(filePath: string): ProcessedFile | null {
+    return this.state.files[filePath] ?? null;
+  }
+
   public updateGraphMetadata(
     nodeCount: number,
-    edgeCount: number
+    edgeCount: number,
+    degrees: GraphDegreeStats,
+    structuralEdges?: Record<StructuralEdgeType, number>
   ): void {
     this.state.graphMetadata = {
       nodeCount,
       edgeCount,
+      degrees,
+      ...(structuralEdges && { structuralEdges }),
       lastGraphUpdate: Date.now(),
     };
   }
 
+  public getGraphMetadata(): StateFile["graphMetadata"] | null {
+    return this.state.graphMetadata || null;
+  }
+
   public getLastCommitHash(): string | null {
     return this.state.lastCommitHash || null;
   }
@@ -92,8 +135,36 @@ export class StateManager {
     this.state.lastCommitHash = commitHash;
   }
 
+  public getWorkingTreeFiles(): string[] {
+    return this.state.workingTreeFiles || [];
+  }
+
+  public setWorkingTreeFiles(filePaths: string[]): void {
+    if (filePaths.length > 0) {
+      this.state.workingTreeFiles = filePaths;
+    } else {
+      delete this.state.workingTreeFiles;
+    }
+  }
+
+  public getFingerprint(): IndexFingerprint | null {
+    return this.state.fingerprint || null;
+  }
+
+  public setFingerprint(fingerprint: IndexFingerprint): void {
+    this.state.fingerprint = fingerprint;
+  }
+
+  /**
+   * Forget every processed file, the last commit and graph metadata
+   */
+  public reset(): void {
+    this.state = { files: {}, lastUpdated: Date.now() };
+  }
+
   public removeFile(filePath: string): void {
     delete this.state.files[filePath];
+    this.clearFailure(filePath);
   }
 
   public getFileCount(): number {
@@ -0,0 +1,41 @@
+import { LanceVectorStore } from "@mastra/lance";
+
+const MAX_SCAN_ROWS = 1000000; // Upper bound on rows read when scanning a table
+
+/**
+ * Count the rows stored for each source path in a table
+ * LanceDB is only queried by vector here, so a zero vector with the table's
+ * dimension ranks every row equally and only the source column is read.
+ */
+export async function countRowsBySource(
+  vectorStore: LanceVectorStore,
+  tableName: string
+): Promise<Map<string, number>> {
+  const schema = await vectorStore.getTableSchema(tableName);
+  const vectorField = schema.fields.find((field: { name: string }) => field.name === "vector");
+  const dimension: number = vectorField?.type?.listSize ?? 0;
+  if (!dimension) {
+    throw new Error(`Table '${tableName}' has no vector column`);
+  }
+
+  const rows = await vectorStore.query({
+    tableName,
+    indexName: "vector", // Column name where vectors are stored
+    queryVector: new Array(dimension).fill(0),
+    topK: MAX_SCAN_ROWS,
+    columns: ["metadata_source"],
+  });
+
+  if (rows.length >= MAX_SCAN_ROWS) {
+    throw new Error(`Table '${tableName}' has more than ${MAX_SCAN_ROWS} rows, too many to scan`);
+  }
+
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    const source = String(row.metadata?.source ?? "");
+    if (source) {
+      counts.set(source, (counts.get(source) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
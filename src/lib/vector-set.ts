@@ -0,0 +1,72 @@
+/**
+ * VectorSet holds normalized embeddings in one contiguous typed array, so
+ * cosine similarity is a dot product and large graphs don't pay for a JS
+ * array per vector.
+ *
+ * Quantized sets store each component as int8 (value × 127), a quarter of the
+ * float32 size; similarities then carry an error of roughly 1%.
+ */
+export class VectorSet {
+  public readonly dimension: number;
+  public readonly quantized: boolean;
+  public readonly slots: number[] = []; // Graph store slot of each vector, by position
+
+  private data: Float32Array | Int8Array;
+
+  constructor(dimension: number, capacity: number, quantized: boolean = false) {
+    this.dimension = dimension;
+    this.quantized = quantized;
+    this.data = quantized ? new Int8Array(capacity * dimension) : new Float32Array(capacity * dimension);
+  }
+
+  /**
+   * Bytes needed for a set of this size
+   */
+  public static estimateBytes(count: number, dimension: number, quantized: boolean): number {
+    return count * dimension * (quantized ? 1 : 4);
+  }
+
+  public get size(): number {
+    return this.slots.length;
+  }
+
+  /**
+   * Normalize and append a vector
+   * @returns Its position in the set
+   */
+  public add(slot: number, vector: ArrayLike<number>): number {
+    const position = this.slots.length;
+    if ((position + 1) * this.dimension > this.data.length) {
+      throw new Error(`VectorSet is full (${position} vectors)`);
+    }
+
+    let norm = 0;
+    for (let i = 0; i < this.dimension; i++) {
+      norm += vector[i]! * vector[i]!;
+    }
+    const scale = norm === 0 ? 0 : (this.quantized ? 127 : 1) / Math.sqrt(norm);
+
+    const offset = position * this.dimension;
+    for (let i = 0; i < this.dimension; i++) {
+      this.data[offset + i] = this.quantized ? Math.round(vector[i]! * scale) : vector[i]! * scale;
+    }
+
+    this.slots.push(slot);
+    return position;
+  }
+
+  /**
+   * Cosine similarity of the vectors at two positions
+   */
+  public similarity(a: number, b: number): number {
+    const data = this.data;
+    const dimension = this.dimension;
+    let offsetA = a * dimension;
+    let offsetB = b * dimension;
+    let sum = 0;
+    for (let i = 0; i < dimension; i++) {
+      sum += data[offsetA++]! * data[offsetB++]!;
+    }
+    return this.quantized ? sum / (127 * 127) : sum;
+  }
+}
@@ -0,0 +1,108 @@
+import { LanceVectorStore } from "@mastra/lance";
+import type { VerifyIssue, VerifyOptions, VerifyReport } from "../types/index.js";
+import { StateManager } from "./state-manager.js";
+import { GraphStore } from "./graph-store.js";
+import { countRowsBySource } from "./table-scan.js";
+import * as fs from "fs";
+
+/**
+ * Verifier checks that the state file, LanceDB and the graph store agree.
+ *
+ * For every source found in any of the three stores it compares the chunk
+ * count recorded in the state file with the LanceDB rows and graph chunks for
+ * that source, and the stored hash with the file on disk. The graph chunk log
+ * is checked for chunks missing from any of its column files.
+ * Nothing is modified; `verify --repair` re-indexes the reported files.
+ */
+export class Verifier {
+  private options: VerifyOptions;
+
+  constructor(options: VerifyOptions) {
+    this.options = options;
+  }
+
+  public async run(): Promise<VerifyReport> {
+    if (!fs.existsSync(this.options.output)) {
+      throw new Error(
+        `Index not found at ${this.options.output}\n\n` +
+        `Suggestions:\n` +
+        `  • Check the --output path`
+      );
+    }
+
+    const stateManager = new StateManager(this.options.output);
+    const vectorStore = await LanceVectorStore.create(this.options.output);
+    const tables = await vectorStore.listTables();
+    const vectorCounts = tables.includes(this.options.tableName)
+      ? await countRowsBySource(vectorStore, this.options.tableName)
+      : new Map<string, number>();
+
+    const graphStore = GraphStore.exists(this.options.output) ? new GraphStore(this.options.output, true) : null;
+    const graphCounts = graphStore?.getChunkCountsBySource() ?? new Map<string, number>();
+
+    const sources = [...new Set([
+      ...stateManager.getProcessedFiles(),
+      ...vectorCounts.keys(),
+      ...graphCounts.keys(),
+    ])].sort();
+
+    const issues: VerifyIssue[] = [];
+    for (const source of sources) {
+      const problems = this.checkSource(
+        source,
+        stateManager,
+        vectorCounts.get(source) ?? 0,
+        graphStore ? graphCounts.get(source) ?? 0 : null
+      );
+      if (problems.length > 0) {
+        issues.push({ source, problems });
+      }
+    }
+
+    return {
+      filesChecked: sources.length,
+      graphChecked: graphStore !== null,
+      issues,
+      graphLogIssues: graphStore?.checkLog() ?? [],
+    };
+  }
+
+  /**
+   * @param graphChunks - Chunks in the graph store, or null when there is no graph data
+   */
+  private checkSource(
+    source: string,
+    stateManager: StateManager,
+    vectorRows: number,
+    graphChunks: number | null
+  ): string[] {
+    const problems: string[] = [];
+    const record = stateManager.getProcessedFile(source);
+
+    let content: string | null = null;
+    try {
+      content = fs.readFileSync(source, "utf-8");
+    } catch (error) {
+      problems.push("file no longer exists");
+    }
+
+    if (!record) {
+      problems.push(`not in the state file (${vectorRows} LanceDB row(s), ${graphChunks ?? 0} graph chunk(s))`);
+      return problems;
+    }
+
+    if (content !== null && stateManager.computeHash(content) !== record.hash) {
+      problems.push("file changed since it was indexed");
+    }
+
+    if (vectorRows !== record.chunks) {
+      problems.push(`state has ${record.chunks} chunk(s), LanceDB has ${vectorRows} row(s)`);
+    }
+
+    if (graphChunks !== null && graphChunks !== record.chunks) {
+      problems.push(`state has ${record.chunks} chunk(s), graph store has ${graphChunks}`);
+    }
+
+    return problems;
+  }
+}
@@ -0,0 +1,231 @@
+import * as fs from "fs";
+import * as path from "path";
+import chalk from "chalk";
+import type { WatchOptions } from "../types/index.js";
+import { Embedder } from "./embedder.js";
+import { FileDiscovery } from "./file-discovery.js";
+import { isGitRepository, getCurrentCommitHash } from "./git-diff.js";
+
+const HEAD_POLL_INTERVAL_MS = 2000; // How often to check for commits and branch switches
+
+/**
+ * Watcher keeps an index up to date while files are edited.
+ *
+ * After an initial intelligent run, every non-ignored directory is watched.
+ * Bursts of changes are debounced and synced through the Embedder, state and
+ * graph data are saved on a timer, and a moved HEAD (commit, checkout, pull)
+ * triggers a diff run. All indexing work is serialized through one queue.
+ *
+ * Directories are watched one by one (rather than with fs.watch's recursive
+ * option) so ignored trees like node_modules never consume watch handles.
+ */
+export class Watcher {
+  private options: WatchOptions;
+  private embedder: Embedder;
+  private fileDiscovery: FileDiscovery;
+  private rootDir: string;
+  private outputDir: string;
+  private watchers: Map<string, fs.FSWatcher> = new Map();
+  private pending: Set<string> = new Set();
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private headTimer: NodeJS.Timeout | null = null;
+  private head: string | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private dirty: boolean = false;
+
+  constructor(options: WatchOptions) {
+    this.options = options;
+    this.rootDir = path.resolve(options.dir);
+    this.outputDir = path.resolve(options.output);
+    this.embedder = new Embedder(options);
+    this.fileDiscovery = new FileDiscovery(this.rootDir, options.ignore);
+  }
+
+  public async start(): Promise<void> {
+    await this.embedder.run("intelligent");
+
+    if (isGitRepository(this.rootDir)) {
+      this.head = getCurrentCommitHash(this.rootDir);
+      this.headTimer = setInterval(() => this.checkHead(), HEAD_POLL_INTERVAL_MS);
+    }
+
+    this.watchDirectory(this.rootDir);
+    this.saveTimer = setInterval(() => this.enqueue(async () => this.save()), this.options.saveIntervalMs);
+
+    console.log(chalk.green(`✓ Watching ${this.options.dir} (${this.watchers.size} directories, Ctrl+C to stop)`));
+  }
+
+  /**
+   * Stop watching, wait for queued work and save
+   */
+  public async stop(): Promise<void> {
+    for (const timer of [this.debounceTimer, this.saveTimer, this.headTimer]) {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+    this.debounceTimer = this.saveTimer = this.headTimer = null;
+
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+
+    await this.queue;
+    this.save();
+  }
+
+  private isExcluded(filePath: string): boolean {
+    if (filePath === this.outputDir || filePath.startsWith(this.outputDir + path.sep)) {
+      return true; // Our own writes would trigger endless re-indexing
+    }
+    return filePath !== this.rootDir && this.fileDiscovery.isIgnored(filePath);
+  }
+
+  private watchDirectory(dir: string): void {
+    if (this.watchers.has(dir) || this.isExcluded(dir)) {
+      return;
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      const watcher = fs.watch(dir, (_event, filename) => {
+        if (filename) {
+          this.onChange(path.join(dir, filename.toString()));
+        }
+      });
+      watcher.on("error", () => this.unwatchDirectory(dir));
+      this.watchers.set(dir, watcher);
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch (error) {
+      return; // Directory vanished or is unreadable
+    }
+
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        this.watchDirectory(path.join(dir, entry.name));
+      }
+    }
+  }
+
+  /**
+   * Stop watching a directory and everything below it
+   */
+  private unwatchDirectory(dir: string): void {
+    for (const [watched, watcher] of this.watchers) {
+      if (watched === dir || watched.startsWith(dir + path.sep)) {
+        watcher.close();
+        this.watchers.delete(watched);
+      }
+    }
+  }
+
+  private onChange(filePath: string): void {
+    if (this.isExcluded(filePath)) {
+      return;
+    }
+
+    this.pending.add(filePath);
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.enqueue(() => this.syncPending());
+    }, this.options.debounceMs);
+  }
+
+  private async syncPending(): Promise<void> {
+    const paths = [...this.pending];
+    this.pending.clear();
+
+    const changed = new Set<string>();
+    const deleted = new Set<string>();
+    const indexed = this.embedder.getIndexedFiles();
+
+    for (const filePath of paths) {
+      let stats: fs.Stats | null = null;
+      try {
+        stats = fs.statSync(filePath);
+      } catch (error) {
+        // Missing - deleted file or directory
+      }
+
+      if (stats?.isDirectory()) {
+        // New or moved-in directory: watch it and index its files
+        this.watchDirectory(filePath);
+        this.fileDiscovery.discoverFiles(filePath).forEach((file) => changed.add(file));
+      } else if (stats) {
+        if (this.fileDiscovery.shouldIndex(filePath)) {
+          changed.add(filePath);
+        }
+      } else {
+        this.unwatchDirectory(filePath);
+        indexed
+          .filter((file) => file === filePath || file.startsWith(filePath + path.sep))
+          .forEach((file) => deleted.add(file));
+      }
+    }
+
+    if (changed.size === 0 && deleted.size === 0) {
+      return;
+    }
+
+    const stats = await this.embedder.syncFiles([...changed], [...deleted]);
+    this.dirty = true;
+
+    const parts = [`${stats.filesProcessed} re-indexed`];
+    if (stats.filesSkipped > 0) parts.push(`${stats.filesSkipped} unchanged`);
+    if (stats.filesDeleted) parts.push(`${stats.filesDeleted} removed`);
+    console.log(chalk.gray(`[${timestamp()}]`) + chalk.cyan(` ↻ ${parts.join(", ")}`));
+
+    if (stats.errors > 0) {
+      console.log(chalk.red(`  ✗ Errors: ${stats.errors}`));
+    }
+    stats.warnings.forEach((warning) => console.log(chalk.yellow(`  - ${warning}`)));
+  }
+
+  /**
+   * Run a diff when HEAD moved (commit, checkout, merge, pull)
+   */
+  private checkHead(): void {
+    const current = getCurrentCommitHash(this.rootDir);
+    if (!current || current === this.head) {
+      return;
+    }
+
+    const previous = this.head;
+    this.head = current;
+
+    this.enqueue(async () => {
+      console.log(
+        chalk.gray(`[${timestamp()}]`) +
+        chalk.cyan(` HEAD moved ${previous ? previous.substring(0, 7) + " → " : "to "}${current.substring(0, 7)}, running diff`)
+      );
+      await this.embedder.run("diff");
+    });
+  }
+
+  private save(): void {
+    if (!this.dirty) {
+      return;
+    }
+    this.embedder.flush();
+    this.dirty = false;
+  }
+
+  /**
+   * Serialize indexing work; a failed task is logged and watching continues
+   */
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch((error) => {
+      console.error(chalk.red(`✗ ${error instanceof Error ? error.message : String(error)}`));
+    });
+  }
+}
+
+function timestamp(): string {
+  return new Date().toLocaleTimeString();
+}
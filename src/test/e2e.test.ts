@@ -0,0 +1,216 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Embedder } from "../lib/embedder.js";
+import { GraphStore } from "../lib/graph-store.js";
+import { Searcher } from "../lib/searcher.js";
+import { StateManager } from "../lib/state-manager.js";
+import type { EmbedderOptions } from "../types/index.js";
+
+// End-to-end runs of the indexer against a temporary git repository, with the
+// fake provider's hash embeddings standing in for an embedding server
+
+const DIMENSION = 16;
+const TABLE_NAME = "embeddings";
+
+const FILES: Record<string, string> = {
+  "src/math.ts": [
+    "export function add(a: number, b: number): number {",
+    "  return a + b;",
+    "}",
+    "",
+    "export function multiply(a: number, b: number): number {",
+    "  return a * b;",
+    "}",
+  ].join("\n"),
+  "src/geometry.ts": [
+    'import { multiply } from "./math.js";',
+    "",
+    "export function area(width: number, height: number): number {",
+    "  return multiply(width, height);",
+    "}",
+  ].join("\n"),
+  "docs/guide.md": "# Guide\n\nHow to add and multiply numbers, and how to compute an area.\n",
+  "README.md": "# Sample\n\nA small repository used by the end-to-end tests.\n",
+};
+
+let root: string;
+let repo: string;
+let output: string;
+
+function git(...args: string[]): string {
+  return execFileSync("git", ["-C", repo, ...args], { stdio: "pipe", encoding: "utf-8" }).trim();
+}
+
+function writeFile(relativePath: string, content: string): void {
+  const filePath = path.join(repo, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+function commit(message: string): void {
+  git("add", "-A");
+  git("commit", "-q", "-m", message);
+}
+
+function file(relativePath: string): string {
+  return path.join(repo, relativePath);
+}
+
+async function index(mode: NonNullable<EmbedderOptions["mode"]>): Promise<void> {
+  const embedder = new Embedder({
+    dir: repo,
+    output,
+    provider: "fake",
+    model: "hash",
+    tableName: TABLE_NAME,
+    dimension: DIMENSION,
+    ignore: [],
+    enableGraph: true,
+    graphThreshold: 0.3,
+    graphEdges: "exact",
+    mode,
+  });
+  await embedder.run();
+}
+
+function indexedFiles(): string[] {
+  return new StateManager(output).getProcessedFiles().sort();
+}
+
+function graphSources(): string[] {
+  return new GraphStore(output, true).getSources().sort();
+}
+
+async function vectorChunkCount(source: string): Promise<number> {
+  const searcher = new Searcher({ output, provider: "fake", model: "hash", tableName: TABLE_NAME, dimension: DIMENSION });
+  try {
+    return (await searcher.getFileChunks(source)).length;
+  } finally {
+    searcher.close();
+  }
+}
+
+describe("indexing end to end", () => {
+  before(() => {
+    // Progress output only clutters the test report
+    mock.method(console, "log", () => {});
+    mock.method(console, "warn", () => {});
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "embedder-e2e-"));
+  });
+
+  after(() => {
+    mock.restoreAll();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(root, "repo-"));
+    output = path.join(repo + "-index");
+    git("init", "-q");
+    git("config", "user.email", "tests@example.com");
+    git("config", "user.name", "Tests");
+    git("config", "commit.gpgsign", "false");
+    Object.entries(FILES).forEach(([relativePath, content]) => writeFile(relativePath, content));
+    commit("Initial commit");
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+    fs.rmSync(output, { recursive: true, force: true });
+  });
+
+  it("runFull indexes every text file into the state and the graph store", async () => {
+    writeFile("assets/logo.png", "\x89PNG");
+    writeFile("node_modules/dep/index.js", "module.exports = 1;");
+
+    await index("full");
+
+    const expected = Object.keys(FILES).map(file).sort();
+    assert.deepEqual(indexedFiles(), expected);
+    assert.deepEqual(graphSources(), expected);
+    assert.equal(new StateManager(output).getLastCommitHash(), git("rev-parse", "HEAD"));
+  });
+
+  it("runDiff indexes added and modified files and removes deleted ones", async () => {
+    await index("full");
+    const unchanged = new GraphStore(output, true).getChunks().filter((chunk) => chunk.source === file("README.md"));
+
+    writeFile("src/math.ts", FILES["src/math.ts"] + "\n\nexport function subtract(a: number, b: number): number {\n  return a - b;\n}\n");
+    writeFile("src/strings.ts", "export function shout(text: string): string {\n  return text.toUpperCase();\n}\n");
+    fs.rmSync(file("docs/guide.md"));
+    commit("Change files");
+
+    await index("diff");
+
+    const state = new StateManager(output);
+    assert.deepEqual(indexedFiles(), [file("README.md"), file("src/geometry.ts"), file("src/math.ts"), file("src/strings.ts")]);
+    assert.equal(state.getLastCommitHash(), git("rev-parse", "HEAD"));
+    assert.deepEqual(graphSources(), indexedFiles());
+    assert.equal(await vectorChunkCount(file("docs/guide.md")), 0);
+
+    const store = new GraphStore(output, true);
+    assert.ok(store.getChunks().some((chunk) => chunk.source === file("src/math.ts") && chunk.text.includes("subtract")));
+    // Files the commit didn't touch keep their chunks
+    assert.deepEqual(store.getChunks().filter((chunk) => chunk.source === file("README.md")), unchanged);
+  });
+
+  it("runDiff moves renamed files to their new path", async () => {
+    await index("full");
+
+    git("mv", "src/geometry.ts", "src/shapes.ts");
+    commit("Rename geometry");
+
+    await index("diff");
+
+    assert.ok(!indexedFiles().includes(file("src/geometry.ts")));
+    assert.ok(indexedFiles().includes(file("src/shapes.ts")));
+    assert.ok(!graphSources().includes(file("src/geometry.ts")));
+    assert.ok(graphSources().includes(file("src/shapes.ts")));
+    assert.equal(await vectorChunkCount(file("src/geometry.ts")), 0);
+  });
+
+  it("runIntelligent runs full without state, diff after a commit and nothing when up to date", async () => {
+    await index("intelligent");
+    assert.deepEqual(indexedFiles(), Object.keys(FILES).map(file).sort());
+    const firstRun = new StateManager(output).getProcessedFile(file("README.md"))!.timestamp;
+
+    await index("intelligent");
+    assert.equal(new StateManager(output).getProcessedFile(file("README.md"))!.timestamp, firstRun);
+
+    writeFile("src/strings.ts", "export const greeting = 'hello';\n");
+    commit("Add strings");
+    await index("intelligent");
+
+    const state = new StateManager(output);
+    assert.ok(state.getProcessedFiles().includes(file("src/strings.ts")));
+    assert.equal(state.getProcessedFile(file("README.md"))!.timestamp, firstRun);
+    assert.equal(state.getLastCommitHash(), git("rev-parse", "HEAD"));
+  });
+
+  it("persists the graph store across runs and reopens it unchanged", async () => {
+    await index("full");
+
+    const written = new GraphStore(output, true);
+    const chunks = written.getChunks();
+    const edges = written.getEdges();
+    assert.ok(chunks.length > 0);
+    assert.ok(edges.length > 0);
+    assert.equal(written.getConfig().dimension, DIMENSION);
+    assert.equal(written.getEmbeddings()[0]!.length, DIMENSION);
+
+    const reopened = new GraphStore(output, true);
+    assert.deepEqual(reopened.getChunks(), chunks);
+    assert.deepEqual(reopened.getEdges(), edges);
+    assert.equal(reopened.needsEdges(), false);
+    assert.equal(reopened.getStats().nodeCount, new StateManager(output).getGraphMetadata()!.nodeCount);
+
+    // An up-to-date intelligent run leaves the stored graph as it was
+    await index("intelligent");
+    assert.deepEqual(new GraphStore(output, true).getChunks(), chunks);
+    assert.deepEqual(new GraphStore(output, true).getEdges(), edges);
+  });
+});
@@ -1,20 +1,96 @@
 export interface EmbedderOptions {
   dir: string;
   output: string;
-  baseUrl: string;
+  provider?: EmbeddingProviderName;
+  baseUrl?: string; // Defaults to the provider's usual endpoint
   model: string;
+  apiKeyEnv?: string; // Env var holding the API key (openai provider)
   tableName: string;
-  dimension: number;
+  // Probed from the model when not set; runs fail if it disagrees with the probe
+  dimension?: number;
   ignore?: string[];
-  batchSize?: number;
+  batchSize?: number; // Max chunks per embedding request, packed across files
+  batchTokens?: number; // Max estimated tokens per embedding request
+  concurrency?: number; // Files read and chunked in parallel
   // GraphRAG options
   enableGraph?: boolean;
   graphThreshold?: number;
+  graphTopK?: number; // Max similarity edges each chunk picks, unset for no cap
+  graphEdges?: GraphEdgeMethod;
+  graphEf?: number; // ANN search breadth (recall vs speed)
+  graphMemory?: number; // MB available for building edges
   // Diff mode options
   mode?: 'full' | 'diff' | 'intelligent';
   fromCommit?: string;
+  includeWorkingTree?: boolean; // Also index staged, unstaged and untracked changes
+  // Per-extension chunking overrides, keyed by extension (e.g., ".md")
+  chunking?: Record<string, ChunkingOptions>;
+  // Drop and rebuild the index when the embedding settings changed since the last run
+  reindexOnChange?: boolean;
+  // Embedding request policy (see RequestPolicy)
+  maxRetries?: number;
+  retryDelay?: number;
+  requestTimeout?: number;
+  requestsPerSecond?: number;
+  tokensPerMinute?: number;
+  circuitBreakerThreshold?: number;
 }
 
+export type EmbeddingProviderName = 'openai' | 'ollama' | 'transformers' | 'fake';
+
+/**
+ * Settings that select and configure an embedding provider
+ */
+export interface ProviderOptions {
+  provider?: EmbeddingProviderName;
+  baseUrl?: string;
+  model: string;
+  apiKeyEnv?: string;
+  dimension?: number; // Vector length of the fake provider
+}
+
+/**
+ * Source of embeddings: an HTTP API or an in-process model
+ * Implementations don't retry; EmbeddingClient wraps them with the request policy.
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly baseUrl: string; // Resolved endpoint, empty for in-process models
+  embedMany(values: string[], abortSignal?: AbortSignal): Promise<number[][]>;
+}
+
+/**
+ * How embedding requests are retried, throttled and cut off
+ * The rate limits are shared by every request of a run, across concurrent files.
+ */
+export interface RequestPolicy {
+  maxRetries: number; // Retries per request after the first attempt
+  retryDelay: number; // Initial backoff in ms, doubled on each retry (with jitter)
+  requestTimeout: number; // ms before a request is aborted and retried
+  requestsPerSecond?: number;
+  tokensPerMinute?: number; // Tokens are estimated as characters / 4
+  circuitBreakerThreshold: number; // Consecutive failed requests before the endpoint is considered down
+}
+
+export type ChunkingStrategy = 'code' | 'recursive' | 'semantic-markdown' | 'html' | 'json';
+
+/**
+ * Chunking overrides for one file extension
+ * Unset fields keep the defaults for the file type.
+ */
+export interface ChunkingOptions {
+  strategy?: ChunkingStrategy;
+  maxSize?: number;
+  overlap?: number;
+  joinThreshold?: number; // semantic-markdown only
+}
+
+/**
+ * Contents of embedder.config.json, .embedderrc or embedder.config.js
+ * Keys match EmbedderOptions; CLI flags override them.
+ */
+export type EmbedderConfig = Partial<EmbedderOptions>;
+
 export interface ProcessedFile {
   path: string;
   hash: string;
@@ -22,14 +98,42 @@ export interface ProcessedFile {
   timestamp: number;
 }
 
+/**
+ * File that could not be indexed; retried first on the next run
+ */
+export interface FailedFile {
+  path: string;
+  error: string;
+  attempts: number; // Runs in which the file failed
+  timestamp: number;
+}
+
+/**
+ * Embedding settings an index was built with
+ * Vectors from different settings can't be mixed in one table.
+ */
+export interface IndexFingerprint {
+  provider: EmbeddingProviderName; // Missing in state written before providers, meaning 'openai'
+  model: string;
+  baseUrl: string;
+  dimension: number;
+  chunkingHash: string; // SHA-256 of the chunking version and per-extension overrides
+}
+
 export interface StateFile {
   files: Record<string, ProcessedFile>;
   lastUpdated: number;
   lastCommitHash?: string;
+  // Files that differed from lastCommitHash when they were read; re-checked on the next diff
+  workingTreeFiles?: string[];
+  fingerprint?: IndexFingerprint;
+  failedFiles?: Record<string, FailedFile>;
   // Track graph metadata
   graphMetadata?: {
     nodeCount: number;
     edgeCount: number;
+    degrees?: GraphDegreeStats; // Missing in state written before edges were stored
+    structuralEdges?: Record<StructuralEdgeType, number>; // Missing in state written before structural edges
     lastGraphUpdate: number;
   };
 }
@@ -40,6 +144,11 @@ export interface ProcessingStats {
   chunksCreated: number;
   errors: number;
   warnings: string[];
+  retries?: number; // Embedding requests that were retried
+  // Embedding throughput
+  embeddingRequests?: number;
+  chunksEmbedded?: number;
+  embeddingMs?: number; // Time spent waiting on embedding requests
   // Diff mode stats
   filesAdded?: number;
   filesModified?: number;
@@ -50,14 +159,91 @@ export interface ProcessingStats {
   // GraphRAG stats
   graphNodesCreated?: number;
   graphEdgesCreated?: number;
+  graphDegrees?: GraphDegreeStats;
+  graphChunksLinked?: number; // Chunks whose edges were computed in this run
+  graphStructuralEdges?: Record<StructuralEdgeType, number>;
+}
+
+/**
+ * A file a dry run would embed
+ */
+export interface PlannedFile {
+  path: string;
+  fileType: FileType;
+  bytes: number;
+  chunks: number;
+  tokens: number; // Estimated
+}
+
+/**
+ * A path skipped by an ignore rule
+ */
+export interface ExcludedPath {
+  path: string; // Relative to the indexed directory; directories end with "/"
+  pattern: string;
+  source: string; // ".gitignore:<line>", "--ignore" or "built-in"
+}
+
+/**
+ * What an index run would do, computed by --dry-run without embedding or writing anything
+ */
+export interface IndexPlan {
+  mode: 'full' | 'diff' | null; // null when the index is up to date
+  reason?: string; // Why intelligent mode picked this mode
+  fromCommit?: string;
+  toCommit?: string;
+  diff?: GitDiffResult; // Diff mode only: changes resolved from git and the state file
+  add: PlannedFile[]; // Not in the index yet
+  update: PlannedFile[]; // Indexed, but the content changed
+  delete: string[];
+  skip: string[]; // Unchanged since they were indexed
+  failed: Array<{ path: string; error: string }>; // Could not be read or chunked
+  excluded: ExcludedPath[]; // Full mode only
+}
+
+/**
+ * File type detected from the extension, selects the chunking strategy
+ */
+export type FileType = 'markdown' | 'html' | 'json' | 'code' | 'text';
+
+/**
+ * Metadata stored with every chunk (as metadata_* columns in LanceDB)
+ * Lines are 1-based and inclusive, bytes are 0-based UTF-8 offsets (end exclusive).
+ * Positions are 0 when the chunk text could not be located in the file.
+ */
+export interface ChunkMetadata {
+  text: string;
+  source: string;
+  chunkIndex: number;
+  startLine: number;
+  endLine: number;
+  startByte: number;
+  endByte: number;
+  fileType: FileType;
+  language: string;
+  contentHash: string; // SHA-256 of the whole file at index time
+  commitHash: string; // HEAD at index time, empty outside git repositories
+  symbolName: string;
+  symbolKind: string;
 }
 
 // GraphRAG specific types - for persistence
+// Fields after chunkIndex are optional so graph data written by older versions still loads
 export interface GraphChunkData {
   id: string;
   text: string;
   source: string;
   chunkIndex: number;
+  startLine?: number;
+  endLine?: number;
+  startByte?: number;
+  endByte?: number;
+  fileType?: FileType;
+  language?: string;
+  contentHash?: string;
+  commitHash?: string;
+  symbolName?: string;
+  symbolKind?: string;
 }
 
 export interface GraphEmbeddingData {
@@ -65,6 +251,64 @@ export interface GraphEmbeddingData {
   embedding: number[];
 }
 
+/**
+ * Undirected similarity edge between two chunks, stored once per pair
+ */
+export interface GraphEdgeData {
+  source: string; // Chunk id
+  target: string;
+  similarity: number; // Cosine similarity, above the graph threshold
+}
+
+/**
+ * Kinds of graph edges: semantic (embedding similarity between chunks) and
+ * structural ones taken from the source (see buildStructuralEdges())
+ */
+export type GraphEdgeType = 'semantic' | 'contains' | 'imports' | 'references';
+export type StructuralEdgeType = Exclude<GraphEdgeType, 'semantic'>;
+
+/**
+ * Random-walk weight per edge type; 0 leaves the type out of the graph
+ */
+export type GraphEdgeWeights = Record<GraphEdgeType, number>;
+
+/**
+ * How similarity edges are found: comparing every pair, or approximate
+ * nearest neighbours (HNSW); auto picks by the number of comparisons
+ */
+export type GraphEdgeMethod = 'auto' | 'exact' | 'ann';
+
+/**
+ * Settings for computing graph edges (see GraphStore.updateEdges())
+ */
+export interface GraphEdgeOptions {
+  method?: GraphEdgeMethod;
+  ef?: number; // Candidates kept per ANN search; higher finds more true neighbours, slower
+  memoryMb?: number; // Vectors are stored as int8 when float32 would exceed this
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Result of GraphStore.updateEdges()
+ */
+export interface GraphEdgeUpdate {
+  chunksLinked: number; // Chunks whose edges were computed
+  method: 'exact' | 'ann' | null; // null when no chunk needed edges
+  quantized: boolean; // Similarities came from int8 vectors
+}
+
+/**
+ * Number of edges per chunk across the graph
+ */
+export interface GraphDegreeStats {
+  min: number;
+  median: number;
+  p90: number;
+  max: number;
+  mean: number;
+  isolated: number; // Chunks without edges
+}
+
 /**
  * Persisted graph data structure
  * This is stored as JSON and can be loaded to rebuild the GraphRAG instance
@@ -81,6 +325,43 @@ export interface PersistedGraphData {
   embeddings: GraphEmbeddingData[];
 }
 
+/**
+ * Kind of symbol declared by a code chunk
+ */
+export type SymbolKind =
+  | 'function'
+  | 'method'
+  | 'constructor'
+  | 'class'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'struct'
+  | 'trait'
+  | 'impl'
+  | 'module'
+  | 'variable'
+  | 'property';
+
+export interface CodeSymbol {
+  name: string;
+  kind: SymbolKind;
+}
+
+/**
+ * Chunk produced by the syntax-aware code chunker
+ * symbolName/symbolKind are comma separated when small declarations are merged,
+ * and empty for chunks without a declaration (e.g., imports)
+ */
+export interface CodeChunk {
+  text: string;
+  metadata: {
+    source: string;
+    symbolName: string;
+    symbolKind: string;
+  };
+}
+
 /**
  * Git diff result structure
  * Contains lists of files that were added, modified, deleted, or renamed
@@ -91,3 +372,223 @@ export interface GitDiffResult {
   deleted: string[];
   renamed: Array<{ from: string; to: string }>;
 }
+
+/**
+ * Options for querying an existing index
+ */
+export interface SearchOptions {
+  output: string;
+  provider?: EmbeddingProviderName;
+  baseUrl?: string;
+  model: string;
+  apiKeyEnv?: string;
+  tableName: string;
+  // Expected embedding dimension; query embeddings are checked against it when set
+  dimension?: number;
+  // Graph search edge weights; unset types use DEFAULT_EDGE_WEIGHTS
+  edgeWeights?: Partial<GraphEdgeWeights>;
+}
+
+/**
+ * A single vector search hit
+ * Score is the LanceDB distance (lower is more similar)
+ */
+export interface SearchResult {
+  id: string;
+  source: string;
+  chunkIndex: number;
+  startLine: number;
+  endLine: number;
+  language: string;
+  symbolName: string;
+  symbolKind: string;
+  text: string;
+  score: number;
+}
+
+/**
+ * Parameters for random-walk graph retrieval
+ */
+export interface GraphSearchParams {
+  topK: number;
+  randomWalkSteps: number;
+  restartProb: number;
+  threshold?: number;
+}
+
+/**
+ * A single graph search hit
+ * Score is the random-walk relevance (higher is more relevant)
+ */
+export interface GraphSearchResult {
+  id: string;
+  source: string;
+  chunkIndex: number;
+  startLine: number;
+  endLine: number;
+  language: string;
+  symbolName: string;
+  symbolKind: string;
+  text: string;
+  score: number;
+}
+
+/**
+ * Options for the HTTP retrieval server
+ */
+export interface ServerOptions extends SearchOptions {
+  host: string;
+  port: number;
+}
+
+/**
+ * Options for watch mode
+ */
+export interface WatchOptions extends EmbedderOptions {
+  debounceMs: number; // Quiet period before a burst of changes is indexed
+  saveIntervalMs: number; // How often state and graph data are written to disk
+}
+
+/**
+ * Options for the gc command
+ */
+export interface GcOptions {
+  output: string;
+  tableName: string;
+  dryRun?: boolean; // Report orphans without deleting them
+  force?: boolean; // Delete even when no indexed file exists (e.g., run from the wrong directory)
+}
+
+/**
+ * Sources with no backing file, found (and unless dryRun, removed) by the gc command
+ */
+export interface GcResult {
+  sourcesChecked: number;
+  orphans: string[];
+  vectorsRemoved: number; // Orphaned sources removed from LanceDB
+  stateEntriesRemoved: number;
+  graphSourcesRemoved: number;
+}
+
+/**
+ * File formats written by the export-graph command
+ */
+export type GraphExportFormat = 'graphml' | 'gexf' | 'neo4j-csv' | 'jsonl';
+
+/**
+ * Options for the export-graph command
+ */
+export interface GraphExportOptions {
+  output: string; // Index output directory holding graph-data/
+  format: GraphExportFormat;
+  out?: string; // File (directory for neo4j-csv); stdout when unset
+  threshold?: number; // Only similarity edges above this; defaults to the stored threshold
+  previewLength: number; // Characters of chunk text per node
+  structural?: boolean; // Also export file nodes and structural edges
+}
+
+/**
+ * Counts written by the export-graph command
+ */
+export interface GraphExportResult {
+  nodes: number;
+  edges: number;
+  files: string[]; // Files written, empty when streaming to stdout
+  threshold: number;
+  edgesIncomplete: boolean; // Some chunks had no similarity edges computed yet
+}
+
+/**
+ * Options for the clusters command
+ */
+export interface ClusterOptions {
+  output: string; // Index output directory holding graph-data/
+  threshold?: number; // Only similarity edges above this; defaults to the stored threshold
+  resolution: number; // Louvain resolution; higher gives more, smaller clusters
+  minSize: number; // Smaller communities are left unclustered
+  keywords: number; // Keyword terms listed per cluster
+  centralChunks: number; // Central chunks listed per cluster
+}
+
+/**
+ * A chunk with many strong edges inside its cluster
+ */
+export interface ClusterChunk {
+  id: string;
+  source: string;
+  chunkIndex: number;
+  startLine?: number;
+  endLine?: number;
+  symbolName?: string;
+  preview: string;
+  strength: number; // Sum of the similarity of its edges within the cluster
+}
+
+/**
+ * One detected community of chunks
+ */
+export interface ClusterInfo {
+  id: number; // 0 is the largest cluster
+  size: number; // Chunks
+  files: Array<{ source: string; chunks: number[] }>; // Chunk indexes per file, most chunks first
+  centralChunks: ClusterChunk[];
+  keywords: string[]; // Terms frequent in this cluster and rare in the others
+}
+
+/**
+ * Contents of graph-data/clusters.json
+ */
+export interface ClusterSummary {
+  createdAt: number;
+  threshold: number;
+  resolution: number;
+  modularity: number; // Of the whole partition, small communities included
+  chunkCount: number;
+  clusteredChunks: number; // Chunks in a cluster of at least minSize
+  edgesIncomplete: boolean; // Some chunks had no similarity edges computed yet
+  clusters: ClusterInfo[];
+}
+
+/**
+ * Options for the verify command
+ */
+export interface VerifyOptions {
+  output: string;
+  tableName: string;
+}
+
+/**
+ * A source file whose entries in the state file, LanceDB and the graph store disagree
+ */
+export interface VerifyIssue {
+  source: string;
+  problems: string[];
+}
+
+/**
+ * Result of comparing the state file, LanceDB and the graph store
+ */
+export interface VerifyReport {
+  filesChecked: number;
+  graphChecked: boolean; // False when the index has no graph data
+  issues: VerifyIssue[];
+  graphLogIssues: Array<{ problem: string; sources: string[] }>; // Damage to the graph chunk log
+}
+
+/**
+ * Index status reported by the retrieval server
+ */
+export interface IndexStatus {
+  lastCommitHash: string | null;
+  fileCount: number;
+  graphMetadata: StateFile["graphMetadata"] | null;
+  graphLoaded: boolean;
+}
+
+/**
+ * A validated config file and where it was loaded from
+ */
+export interface LoadedConfig {
+  path: string;
+  config: EmbedderConfig;
+}